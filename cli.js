@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+// =============================================
+// COMMAND-LINE EXPORT
+// =============================================
+
+// Runs the plugin's export on a JSON file saved from the Figma REST API
+// (GET /v1/files/:file_key/variables/local), so that CI can regenerate the CSS or
+// design tokens without opening Figma. Build code.js first with "npm run build".
+
+const fs = require("fs");
+const path = require("path");
+const { exportVariablesHeadless } = require("./code.js");
+
+const USAGE = `Usage: node cli.js <variables.json> [options]
+
+Output
+  --format css|dtcg        CSS variables (default) or Design Tokens (DTCG JSON)
+  --out <file>             Write to a file instead of standard output
+  --check                  Compare with --out instead of writing it; exit with 1 when it is out of date
+
+Options (as in the "Convert all variables" tab)
+  --options <file.json>    Export options as the plugin sends them; per-collection settings
+                           (collectionPrefixes, collectionUnits, resolveModes, modeSettings)
+                           may be keyed by collection name or id
+  --collection <name>      Export only this collection; repeat for more
+  --color-format <format>  hex-rgba (default), hex, rgb, hsl, oklch or display-p3
+  --precision <n>          Decimal places for fractional colour values (2)
+  --units px|rem|none      Typed values with lengths in px (default) or rem, or raw values
+  --rem-base <n>           Pixels per rem (16)
+  --aliases reference|resolve
+  --naming kebab|camel|snake|bem
+  --strip-groups <n>
+  --prefix <text>
+  --suffix <text>
+  --use-code-syntax
+  --overrides-only
+  --include-metadata
+`;
+
+// Arguments that take a value, and the option each one sets.
+const VALUE_ARGUMENTS = {
+  "--format": (options, value) => { options.format = value; },
+  "--color-format": (options, value) => { options.colorFormat = value; },
+  "--precision": (options, value) => { options.precision = parseInt(value, 10) || 0; },
+  "--units": (options, value) => {
+    options.serializeValues = value !== "none";
+    options.lengthUnit = value === "rem" ? "rem" : "px";
+  },
+  "--rem-base": (options, value) => { options.remBase = parseFloat(value) || 16; },
+  "--aliases": (options, value) => { options.resolveAliases = value === "resolve"; },
+  "--naming": (options, value) => { options.naming.preset = value; },
+  "--strip-groups": (options, value) => { options.naming.stripGroups = parseInt(value, 10) || 0; },
+  "--prefix": (options, value) => { options.naming.prefix = value.trim(); },
+  "--suffix": (options, value) => { options.naming.suffix = value.trim(); },
+  "--collection": (options, value) => { options.collections = (options.collections || []).concat(value); },
+};
+
+const FLAG_ARGUMENTS = {
+  "--use-code-syntax": "useCodeSyntax",
+  "--overrides-only": "overridesOnly",
+  "--include-metadata": "includeMetadata",
+};
+
+const FORMATS = ["css", "dtcg"];
+
+class UsageError extends Error {}
+
+function readJSON(file) {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new UsageError(`Could not read ${file}: ${error.message}`);
+  }
+}
+
+/**
+ * Reads the arguments into the input file, the output settings and the export options. The
+ * defaults are the UI's; an --options file comes next and the other arguments override it.
+ */
+function parseArguments(args) {
+  const parsed = { input: undefined, out: undefined, check: false, options: { naming: {} } };
+  const overrides = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--help" || arg === "-h") {
+      parsed.help = true;
+    } else if (arg === "--check") {
+      parsed.check = true;
+    } else if (arg === "--out" || arg === "--options" || VALUE_ARGUMENTS[arg]) {
+      const value = args[++i];
+      if (value === undefined) throw new UsageError(`${arg} needs a value`);
+      if (arg === "--out") parsed.out = value;
+      else if (arg === "--options") parsed.optionsFile = value;
+      else overrides.push((options) => VALUE_ARGUMENTS[arg](options, value));
+    } else if (FLAG_ARGUMENTS[arg]) {
+      overrides.push((options) => { options[FLAG_ARGUMENTS[arg]] = true; });
+    } else if (arg.startsWith("--")) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else if (parsed.input === undefined) {
+      parsed.input = arg;
+    } else {
+      throw new UsageError(`Unexpected argument ${arg}`);
+    }
+  }
+  if (parsed.help) return parsed;
+  if (parsed.input === undefined) throw new UsageError("Missing the variables JSON file");
+  if (parsed.check && parsed.out === undefined) throw new UsageError("--check needs --out <file> to compare with");
+
+  const fromFile = parsed.optionsFile ? readJSON(parsed.optionsFile) : {};
+  parsed.options = Object.assign({ serializeValues: true, lengthUnit: "px", remBase: 16 }, fromFile, {
+    naming: Object.assign({}, fromFile.naming),
+  });
+  overrides.forEach((override) => override(parsed.options));
+  if (parsed.options.format !== undefined && FORMATS.indexOf(parsed.options.format) === -1) {
+    throw new UsageError(`--format must be one of ${FORMATS.join(", ")}`);
+  }
+  return parsed;
+}
+
+async function main() {
+  const parsed = parseArguments(process.argv.slice(2));
+  if (parsed.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const { output, warnings, nameCollisions } = await exportVariablesHeadless(readJSON(parsed.input), parsed.options);
+  warnings.forEach((warning) => console.warn(`Kept as a var() reference: ${warning}`));
+  nameCollisions.forEach((name) => console.warn(`Exported by more than one collection (set a collection prefix): ${name}`));
+
+  if (parsed.check) {
+    const current = fs.existsSync(parsed.out) ? fs.readFileSync(parsed.out, "utf8") : undefined;
+    if (current === output) return 0;
+    console.error(`${parsed.out} is ${current === undefined ? "missing" : "out of date"}. Run the same command without --check to update it.`);
+    return 1;
+  }
+  if (parsed.out === undefined) {
+    process.stdout.write(output);
+  } else {
+    fs.mkdirSync(path.dirname(path.resolve(parsed.out)), { recursive: true });
+    fs.writeFileSync(parsed.out, output);
+  }
+  return 0;
+}
+
+main().then(
+  (code) => { process.exitCode = code; },
+  (error) => {
+    console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `Error exporting variables: ${error.message}`);
+    process.exitCode = 2;
+  }
+);
@@ -16,13 +16,46 @@ function padStartPolyfill(str: string, targetLength: number, padString: string =
   }
 }
 
+// True when code.js is loaded by the command-line tool (cli.js) rather than by Figma
+const HEADLESS = typeof figma === "undefined";
+
+// CommonJS exports, for cli.js; Figma runs code.js as a plain script
+declare const module: { exports: unknown };
+
 // Type definitions
 type FigmaVariable = Variable;
 type FigmaResolvedType = "COLOR" | "STRING" | "FLOAT" | "BOOLEAN";
 
+// Figma-only properties of a variable, written as an "@figma" comment above its declaration.
+interface VariableMetadata {
+  // Figma name with its groups, e.g. "color/bg primary"
+  name?: string;
+  // Figma variable key, which stays the same when the variable is renamed; mirror imports match on it
+  key?: string;
+  // Figma type, which import uses instead of guessing it from the value (booleans are exported as 1 and 0)
+  resolvedType?: VariableResolvedDataType;
+  description?: string;
+  scopes?: VariableScope[];
+  codeSyntax?: { [platform in CodeSyntaxPlatform]?: string };
+  hiddenFromPublishing?: boolean;
+}
+
 interface CSSVariable {
   name: string;
   value: string;
+  // Properties to restore on the Figma variable, from an "@figma" annotation
+  metadata?: VariableMetadata;
+  // Name as written in the source when it differs from name (e.g. with the collection prefix);
+  // this is the name var() references use.
+  cssName?: string;
+  // Explicit type from the source (e.g. a token $type); guessed from the value when absent.
+  type?: VariableResolvedDataType;
+  // Set when the value change was deselected in the import preview: the variable is still
+  // created and can be referenced, but its value in this mode is left as it is.
+  skipValue?: boolean;
+  // Set when a type conflict was approved in the import preview: the existing variable is
+  // recreated with the imported type. Without it, a conflicting variable keeps its type and values.
+  retype?: boolean;
 }
 
 interface CSSCollection {
@@ -30,6 +63,87 @@ interface CSSCollection {
   modes: Map<string, CSSVariable[]>;
 }
 
+// Problems found while importing, reported back to the UI per collection, mode and variable.
+type ImportIssueSeverity = 'error' | 'warning' | 'info';
+
+interface ImportIssue {
+  severity: ImportIssueSeverity;
+  collection?: string;
+  mode?: string;
+  variable?: string;
+  message: string;
+}
+
+// Records an issue against the collection, mode and variable currently being processed.
+type ImportReporter = (severity: ImportIssueSeverity, message: string) => void;
+
+// Options chosen in the import tab and sent with the import messages.
+interface ImportOptions {
+  // Pixels per rem when converting rem values back to Figma's px (16 by default)
+  remBase?: number;
+  // Naming convention the CSS was written with, reversed to get the Figma names
+  naming?: NamingOptions;
+  // Make the imported collections match the source: match variables by their annotated key,
+  // rename them and change their type in place, and offer to delete what the source no longer has
+  mirror?: boolean;
+}
+
+// Colour syntaxes available on export. "hex-rgba" is hex when opaque and rgba() otherwise.
+type ColorFormat = "hex-rgba" | "hex" | "rgb" | "hsl" | "oklch" | "display-p3";
+
+// Unit override for the FLOAT variables of one collection. "none" exports bare numbers.
+type CollectionUnit = "auto" | "px" | "rem" | "none";
+
+// Options chosen in the export tabs and sent with the export messages.
+interface ExportOptions {
+  colorFormat?: ColorFormat;
+  // Decimal places for fractional colour values (alpha, channels, angles)
+  precision?: number;
+  // Add units, quotes and numeric booleans based on each variable's type and scopes
+  serializeValues?: boolean;
+  // Unit for FLOAT variables scoped to lengths
+  lengthUnit?: "px" | "rem";
+  // Pixels per rem when converting to rem (16 by default)
+  remBase?: number;
+  // Per-collection unit, keyed by collection id. "auto" uses the scopes; the others apply
+  // to every FLOAT in the collection except opacity and font weight.
+  collectionUnits?: Record<string, CollectionUnit>;
+  // Replace aliases with the literal value at the end of their chain
+  resolveAliases?: boolean;
+  // Mode to resolve aliases with, per referenced collection id (the collection's default mode when absent)
+  resolveModes?: Record<string, string>;
+}
+
+// Variables and modes picked in the cherry pick tab.
+interface ExportSelection {
+  // Only these variables, plus the alias targets their references need (all variables when absent)
+  variableIds?: string[];
+  // Modes to export per collection id (all modes when absent)
+  modeIds?: Record<string, string[]>;
+}
+
+// Shape of a local variable as returned by scanVariablesByMode and sent to the UI.
+interface ScannedVariable {
+  id: string;
+  key: string;
+  name: string;
+  collectionId: string;
+  resolvedType: VariableResolvedDataType;
+  description: string;
+  scopes: VariableScope[];
+  hiddenFromPublishing: boolean;
+  modeValues: Record<string, string>;
+  rawValues: Record<string, VariableValue>;
+  codeSyntax: { [platform in CodeSyntaxPlatform]?: string };
+}
+
+// Shape of a local collection as returned by getAvailableCollections.
+interface ScannedCollection {
+  id: string;
+  name: string;
+  modes: { modeId: string; name: string }[];
+}
+
 // Type guards
 function isVariableAlias(value: any): value is VariableAlias {
   return value && typeof value === "object" && value.type === "VARIABLE_ALIAS";
@@ -39,21 +153,307 @@ function isRGBorRGBA(value: any): value is RGB | RGBA {
   return value && typeof value === "object" && "r" in value && "g" in value && "b" in value;
 }
 
+// =============================================
+// NAMING CONVENTIONS
+// =============================================
+
+// How a Figma variable name ("color/bg primary") is written in CSS.
+type NamingPreset = "kebab" | "camel" | "snake" | "bem";
+
+interface NamingOptions {
+  // kebab (color-bg-primary, the default), camel (colorBgPrimary), snake (color_bg_primary)
+  // or bem (color__bg-primary, groups separated by "__")
+  preset?: NamingPreset;
+  // Number of leading groups to drop, e.g. 1 turns "color/bg" into "bg"
+  stripGroups?: number;
+  prefix?: string;
+  suffix?: string;
+}
+
+// Splits a Figma name into its groups, and each group into lowercase words.
+function splitNameWords(name: string): string[][] {
+  return name
+    .split("/")
+    .map((group) => group
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .split(/[\s_-]+/)
+      .filter((word) => word !== "")
+      .map((word) => word.toLowerCase()))
+    .filter((words) => words.length > 0);
+}
+
+/**
+ * Formats a Figma variable name for CSS with the naming options. Used for every variable name
+ * the export writes, so that names and the aliases pointing to them always agree.
+ */
+function formatVariableName(name: string, options: NamingOptions = {}): string {
+  const groups = splitNameWords(name);
+  // Always keep the last group
+  const kept = groups.slice(Math.min(options.stripGroups || 0, Math.max(groups.length - 1, 0)));
+  const words = kept.reduce((all, group) => all.concat(group), [] as string[]);
+  let body: string;
+  switch (options.preset) {
+    case "camel":
+      body = words.map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join("");
+      break;
+    case "snake":
+      body = words.join("_");
+      break;
+    case "bem":
+      body = kept.map((group) => group.join("-")).join("__");
+      break;
+    default:
+      body = words.join("-");
+  }
+  return (options.prefix || "") + body + (options.suffix || "");
+}
+
+/**
+ * Maps a CSS name back to a Figma variable name. A known name that formats to the CSS name wins,
+ * which restores its groups; otherwise the prefix and suffix are removed and, for the bem preset,
+ * "__" becomes the group separator. Other presets do not record groups, so the name is kept.
+ */
+function parseVariableName(cssName: string, options: NamingOptions = {}, knownNames: string[] = []): string {
+  const known = knownNames.find((name) => formatVariableName(name, options) === cssName);
+  if (known) return known;
+  let body = cssName;
+  if (options.prefix && body.startsWith(options.prefix)) body = body.slice(options.prefix.length);
+  if (options.suffix && body.endsWith(options.suffix)) body = body.slice(0, body.length - options.suffix.length);
+  return options.preset === "bem" ? body.split("__").join("/") : body;
+}
+
+// =============================================
+// VARIABLE INDEX
+// =============================================
+
+/**
+ * Local variables and collections, fetched with one call each and looked up by id, name or key,
+ * so that scans and imports do not ask the API once per alias, mode or variable.
+ */
+interface VariableIndex {
+  variables: Variable[];
+  collections: VariableCollection[];
+  variablesById: Map<string, Variable>;
+  // Keyed "collectionId:name"; the first variable wins when names repeat
+  variablesByName: Map<string, Variable>;
+  variablesByKey: Map<string, Variable>;
+  collectionsById: Map<string, VariableCollection>;
+  collectionsByName: Map<string, VariableCollection>;
+  // Library variables reached through aliases (null when missing), fetched once
+  remoteVariables: Map<string, Variable | null>;
+}
+
+let variableIndex: VariableIndex | null = null;
+
+/**
+ * Where the index reads variables from: the open document through the plugin API, or a
+ * REST API response when the export runs from the command line (see HEADLESS EXPORT).
+ */
+interface VariableSource {
+  getLocalVariables(): Promise<Variable[]>;
+  getLocalCollections(): Promise<VariableCollection[]>;
+  getVariableById(id: string): Promise<Variable | null>;
+  getCollectionById(id: string): Promise<VariableCollection | null>;
+}
+
+const figmaVariableSource: VariableSource = {
+  getLocalVariables: () => figma.variables.getLocalVariablesAsync(),
+  getLocalCollections: () => figma.variables.getLocalVariableCollectionsAsync(),
+  getVariableById: (id) => figma.variables.getVariableByIdAsync(id),
+  getCollectionById: (id) => figma.variables.getVariableCollectionByIdAsync(id),
+};
+
+let variableSource = figmaVariableSource;
+
+function variableNameKey(collectionId: string, name: string): string {
+  return `${collectionId}:${name}`;
+}
+
+function addVariableToIndex(index: VariableIndex, variable: Variable) {
+  if (!index.variablesById.has(variable.id)) index.variables.push(variable);
+  index.variablesById.set(variable.id, variable);
+  const nameKey = variableNameKey(variable.variableCollectionId, variable.name);
+  if (!index.variablesByName.has(nameKey)) index.variablesByName.set(nameKey, variable);
+  if (!index.variablesByKey.has(variable.key)) index.variablesByKey.set(variable.key, variable);
+}
+
+function addCollectionToIndex(index: VariableIndex, collection: VariableCollection) {
+  if (!index.collectionsById.has(collection.id)) index.collections.push(collection);
+  index.collectionsById.set(collection.id, collection);
+  if (!index.collectionsByName.has(collection.name)) index.collectionsByName.set(collection.name, collection);
+}
+
+// Drops a variable that was removed; its name and key entries go with it.
+function removeVariableFromIndex(index: VariableIndex, variableId: string) {
+  index.variables = index.variables.filter((variable) => variable.id !== variableId);
+  index.variablesById.delete(variableId);
+  [index.variablesByName, index.variablesByKey].forEach((map) => {
+    map.forEach((variable, key) => {
+      if (variable.id === variableId) map.delete(key);
+    });
+  });
+}
+
+function buildVariableIndex(variables: Variable[], collections: VariableCollection[], remoteVariables = new Map<string, Variable | null>()): VariableIndex {
+  const index: VariableIndex = {
+    variables: [],
+    collections: [],
+    variablesById: new Map(),
+    variablesByName: new Map(),
+    variablesByKey: new Map(),
+    collectionsById: new Map(),
+    collectionsByName: new Map(),
+    remoteVariables,
+  };
+  collections.forEach((collection) => addCollectionToIndex(index, collection));
+  variables.forEach((variable) => addVariableToIndex(index, variable));
+  return index;
+}
+
+// The index as last fetched, built on first use.
+async function getVariableIndex(): Promise<VariableIndex> {
+  return variableIndex || refreshVariableIndex();
+}
+
+/**
+ * Fetches the local variables and collections again, at the start of each request and after an
+ * import. Variable objects are live, so only the lists and name lookups are rebuilt; library
+ * variables already fetched are kept, and scanned values are only recomputed for variables that
+ * changed (see scanVariablesByMode).
+ */
+async function refreshVariableIndex(): Promise<VariableIndex> {
+  const [variables, collections] = await Promise.all([
+    variableSource.getLocalVariables(),
+    variableSource.getLocalCollections(),
+  ]);
+  variableIndex = buildVariableIndex(variables, collections, variableIndex?.remoteVariables);
+  return variableIndex;
+}
+
+// A variable in the given collection by its name, if it still has that name.
+function findIndexedVariable(index: VariableIndex, collectionId: string, name: string): Variable | undefined {
+  const variable = index.variablesByName.get(variableNameKey(collectionId, name));
+  return variable && variable.name === name && variable.variableCollectionId === collectionId ? variable : undefined;
+}
+
+// A local variable, or a library variable fetched once and kept for the next lookups.
+async function getIndexedVariable(index: VariableIndex, id: string): Promise<Variable | null> {
+  const local = index.variablesById.get(id);
+  if (local) return local;
+  if (!index.remoteVariables.has(id)) {
+    index.remoteVariables.set(id, await variableSource.getVariableById(id));
+  }
+  return index.remoteVariables.get(id) || null;
+}
+
+// Fetches the library variables that local aliases point to, all at once rather than one per alias.
+async function prefetchAliasTargets(index: VariableIndex) {
+  const ids = new Set<string>();
+  index.variables.forEach((variable) => {
+    Object.keys(variable.valuesByMode).forEach((modeId) => {
+      const value = variable.valuesByMode[modeId];
+      if (isVariableAlias(value) && !index.variablesById.has(value.id) && !index.remoteVariables.has(value.id)) {
+        ids.add(value.id);
+      }
+    });
+  });
+  const targets = await Promise.all(Array.from(ids).map((id) => variableSource.getVariableById(id)));
+  Array.from(ids).forEach((id, i) => index.remoteVariables.set(id, targets[i]));
+}
+
+// =============================================
+// PROGRESS AND CANCELLATION
+// =============================================
+
+// Thrown out of a scan or import that the user cancelled.
+class CancelledError extends Error {
+  constructor() {
+    super("Cancelled");
+    this.name = "CancelledError";
+  }
+}
+
+// Items handled between progress messages, which is also when a cancel request is seen
+const PROGRESS_BATCH_SIZE = 250;
+
+let operationCancelRequested = false;
+
+/**
+ * Posts "progress" to the UI and yields so that a "cancel-operation" message gets through;
+ * throws CancelledError once it has. done equal to total marks the end of the task.
+ */
+async function reportProgress(task: string, done: number, total: number) {
+  // The Code panel and the command line have no UI to report to
+  if (HEADLESS || figma.mode === "codegen") return;
+  figma.ui.postMessage({ type: "progress", task, done, total });
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  if (operationCancelRequested && done < total) {
+    throw new CancelledError();
+  }
+}
+
 // =============================================
 // EXPORT FUNCTIONALITY (FIRST PLUGIN)
 // =============================================
 
 /**
- * Helper function: Converts an RGB/RGBA color to a hex string if fully opaque.
- * Otherwise returns an rgba() string with the alpha value rounded to two decimal places.
+ * Converts an RGB/RGBA color to #rrggbb, or #rrggbbaa when it is not fully opaque.
+ */
+function convertColorToHex(rawValue: RGB | RGBA): string {
+  const toHex = (channel: number) => padStartPolyfill(Math.round(channel * 255).toString(16), 2, "0");
+  const alpha = "a" in rawValue ? rawValue.a : 1;
+  const hex = `#${toHex(rawValue.r)}${toHex(rawValue.g)}${toHex(rawValue.b)}`;
+  return alpha === 1 ? hex : hex + toHex(alpha);
+}
+
+// Decimals that tell every 8-bit alpha value (steps of 1/255) apart
+const ALPHA_PRECISION = 3;
+
+// Rounds to the given number of decimals and drops trailing zeros.
+function formatColorNumber(value: number, precision: number): string {
+  return String(parseFloat(value.toFixed(precision)));
+}
+
+/**
+ * Helper function: Converts an RGB/RGBA color to CSS in the requested format.
+ * The default ("hex-rgba") returns a hex string if fully opaque, otherwise an rgba() string.
+ * Values that lie in 0–1 (display-p3 channels, OKLCH chroma) get two extra decimals, and alpha
+ * keeps at least ALPHA_PRECISION decimals whatever the precision, so that it reads back as the same 8-bit value.
  */
-function convertColorToCSS(rawValue: any): string {
+function convertColorToCSS(rawValue: any, options: ExportOptions = {}): string {
   if (!isRGBorRGBA(rawValue)) return rawValue.toString();
   
+  const format = options.colorFormat || "hex-rgba";
+  const precision = options.precision ?? 2;
   const r = Math.round(rawValue.r * 255);
   const g = Math.round(rawValue.g * 255);
   const b = Math.round(rawValue.b * 255);
   const alpha = ("a" in rawValue ? rawValue.a : 1);
+  const alphaText = formatColorNumber(alpha, Math.max(precision, ALPHA_PRECISION));
+  const alphaSuffix = alpha === 1 ? "" : ` / ${alphaText}`;
+  
+  switch (format) {
+    case "hex":
+      return convertColorToHex(rawValue);
+    case "rgb":
+      return `rgb(${formatColorNumber(rawValue.r * 255, precision)} ${formatColorNumber(rawValue.g * 255, precision)} ${formatColorNumber(rawValue.b * 255, precision)}${alphaSuffix})`;
+    case "hsl": {
+      const [hue, saturation, lightness] = srgbToHsl(rawValue.r, rawValue.g, rawValue.b);
+      return `hsl(${formatColorNumber(hue, precision)} ${formatColorNumber(saturation * 100, precision)}% ${formatColorNumber(lightness * 100, precision)}%${alphaSuffix})`;
+    }
+    case "oklch": {
+      const xyz = multiplyMatrix(LINEAR_SRGB_TO_XYZ, [rawValue.r, rawValue.g, rawValue.b].map(srgbToLinear) as Vector3);
+      const [lightness, chroma, hue] = rectangularToPolar(xyzToOklab(xyz));
+      // Achromatic colours have no meaningful hue
+      const hueText = chroma < 0.00001 ? "none" : formatColorNumber(hue, precision);
+      return `oklch(${formatColorNumber(lightness * 100, precision)}% ${formatColorNumber(chroma, precision + 2)} ${hueText}${alphaSuffix})`;
+    }
+    case "display-p3": {
+      const xyz = multiplyMatrix(LINEAR_SRGB_TO_XYZ, [rawValue.r, rawValue.g, rawValue.b].map(srgbToLinear) as Vector3);
+      const p3 = multiplyMatrix(XYZ_TO_LINEAR_P3, xyz).map(linearToSrgb);
+      return `color(display-p3 ${p3.map(channel => formatColorNumber(channel, precision + 2)).join(" ")}${alphaSuffix})`;
+    }
+  }
   
   if (alpha === 1) {
     // Fully opaque - convert to hex using the polyfill.
@@ -62,76 +462,316 @@ function convertColorToCSS(rawValue: any): string {
     const bHex = padStartPolyfill(b.toString(16), 2, "0");
     return `#${rHex}${gHex}${bHex}`;
   } else {
-    // Not fully opaque, use rgba() with alpha fixed to two decimal places.
-    return `rgba(${r}, ${g}, ${b}, ${alpha.toFixed(2)})`;
+    // Not fully opaque, use rgba()
+    return `rgba(${r}, ${g}, ${b}, ${alphaText})`;
+  }
+}
+
+// FLOAT scopes that describe a length, exported with a length unit in CSS and as a DTCG "dimension".
+const DIMENSION_SCOPES: VariableScope[] = [
+  "CORNER_RADIUS",
+  "WIDTH_HEIGHT",
+  "GAP",
+  "STROKE_FLOAT",
+  "EFFECT_FLOAT",
+  "FONT_SIZE",
+  "LINE_HEIGHT",
+  "LETTER_SPACING",
+  "PARAGRAPH_SPACING",
+  "PARAGRAPH_INDENT",
+];
+
+// FLOAT scopes whose values are unitless in CSS.
+const UNITLESS_SCOPES: VariableScope[] = ["OPACITY", "FONT_WEIGHT"];
+
+// STRING scopes whose values are emitted as quoted CSS strings.
+const QUOTED_STRING_SCOPES: VariableScope[] = ["FONT_FAMILY", "TEXT_CONTENT"];
+
+// Font family keywords that must stay unquoted in a font stack.
+const GENERIC_FONT_FAMILIES = [
+  "serif", "sans-serif", "monospace", "cursive", "fantasy", "system-ui", "math", "emoji", "fangsong",
+  "ui-serif", "ui-sans-serif", "ui-monospace", "ui-rounded",
+];
+
+const DEFAULT_REM_BASE = 16;
+
+// True when the variable has scopes and every one of them is in the list.
+function hasOnlyScopes(scopes: VariableScope[], list: VariableScope[]): boolean {
+  return scopes.length > 0 && scopes.every((scope) => list.indexOf(scope) !== -1);
+}
+
+function quoteCSSString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Quotes each family of a font stack, leaving generic families and already quoted names alone.
+function quoteFontFamily(value: string): string {
+  return value
+    .split(",")
+    .map((family) => family.trim())
+    .filter((family) => family !== "")
+    .map((family) => {
+      if (/^["']/.test(family) || GENERIC_FONT_FAMILIES.indexOf(family.toLowerCase()) !== -1) return family;
+      return quoteCSSString(family);
+    })
+    .join(", ");
+}
+
+/**
+ * Serializes a FLOAT, STRING or BOOLEAN value for CSS when type-aware values are enabled:
+ *    - FLOAT: lengths (by scope, or by the collection's unit override) get px or rem;
+ *      opacity and font weight stay unitless, as does anything with ambiguous scopes.
+ *    - STRING: font families and text content are quoted.
+ *    - BOOLEAN: 1 or 0, so the value can be used in calc().
+ * Without the option the raw value is returned as it always was.
+ */
+function serializeVariableValue(variable: Variable, rawValue: VariableValue, options: ExportOptions = {}): string {
+  if (!options.serializeValues) return rawValue.toString();
+  const scopes = variable.scopes || [];
+  
+  switch (variable.resolvedType) {
+    case "FLOAT": {
+      const value = Number(rawValue);
+      if (hasOnlyScopes(scopes, UNITLESS_SCOPES)) return String(value);
+      const override = options.collectionUnits?.[variable.variableCollectionId];
+      const unit = override && override !== "auto"
+        ? override
+        : hasOnlyScopes(scopes, DIMENSION_SCOPES) ? options.lengthUnit || "px" : "none";
+      if (unit === "none" || value === 0) return String(value);
+      if (unit === "rem") return `${parseFloat((value / (options.remBase || DEFAULT_REM_BASE)).toFixed(4))}rem`;
+      return `${value}px`;
+    }
+    case "STRING": {
+      const value = String(rawValue);
+      if (hasOnlyScopes(scopes, ["FONT_FAMILY"])) return quoteFontFamily(value);
+      if (hasOnlyScopes(scopes, QUOTED_STRING_SCOPES)) return quoteCSSString(value);
+      return value;
+    }
+    case "BOOLEAN":
+      return rawValue ? "1" : "0";
+    default:
+      return rawValue.toString();
   }
 }
 
+// Converts a literal (non-alias) value of a variable to its display value.
+function formatVariableValue(variable: Variable, rawValue: VariableValue, options: ExportOptions = {}): string {
+  switch (variable.resolvedType) {
+    case "COLOR":
+      return convertColorToCSS(rawValue, options);
+    case "STRING":
+    case "FLOAT":
+    case "BOOLEAN":
+      return serializeVariableValue(variable, rawValue, options);
+    default:
+      return rawValue.toString();
+  }
+}
+
+/**
+ * Follows an alias chain to its final literal value. Within a collection the chain keeps the
+ * mode it is in; on entering another collection it uses the mode chosen in options.resolveModes,
+ * or that collection's default mode. Throws when the chain loops or ends at a missing variable or value.
+ */
+async function resolveAliasChain(variable: Variable, modeId: string, options: ExportOptions = {}): Promise<{ variable: Variable; value: VariableValue }> {
+  const index = await getVariableIndex();
+  const modeByCollection: Record<string, string> = { [variable.variableCollectionId]: modeId };
+  const chain = [variable.name];
+  const visited = new Set<string>([variable.id]);
+  let current = variable;
+  let value = variable.valuesByMode[modeId];
+  
+  while (isVariableAlias(value)) {
+    const target = await getIndexedVariable(index, value.id);
+    if (!target) {
+      throw new Error(`${chain.join(" → ")} points to a missing variable`);
+    }
+    chain.push(target.name);
+    if (visited.has(target.id)) {
+      throw new Error(`Alias cycle: ${chain.join(" → ")}`);
+    }
+    visited.add(target.id);
+    
+    const collectionId = target.variableCollectionId;
+    if (!(collectionId in modeByCollection)) {
+      // Library collections are not indexed
+      const collection = index.collectionsById.get(collectionId) || (await variableSource.getCollectionById(collectionId));
+      modeByCollection[collectionId] = options.resolveModes?.[collectionId] || (collection ? collection.defaultModeId : "");
+    }
+    current = target;
+    value = target.valuesByMode[modeByCollection[collectionId]];
+  }
+  
+  if (value === undefined) {
+    throw new Error(`${chain.join(" → ")} has no value in the mode used to resolve it`);
+  }
+  return { variable: current, value };
+}
+
 /**
  * Returns a display value for a variable in a specific mode.
  * Uses the variable's raw values (valuesByMode).
- * If the raw value is an alias, returns "alias:" prefixed to the alias variable's name.
- * Otherwise, it converts the value.
+ * If the raw value is an alias, returns "alias:" prefixed to the alias variable's name, followed by
+ * ":::" and the resolved colour for colour aliases. With options.resolveAliases, returns the literal
+ * value at the end of the chain instead; chains that cannot be resolved are added to resolveErrors
+ * and kept as aliases. Otherwise, it converts the value.
  */
-async function getVariableDisplayValueForMode(variable: Variable, modeId: string) {
+async function getVariableDisplayValueForMode(variable: Variable, modeId: string, options: ExportOptions = {}, resolveErrors: string[] = []) {
   const rawValues = (variable).valuesByMode;
   if (!rawValues || !(modeId in rawValues)) return "N/A";
   const rawValue = rawValues[modeId];
   if (isVariableAlias(rawValue)) {
-    const aliasVar = await figma.variables.getVariableByIdAsync(rawValue.id);
+    if (options.resolveAliases) {
+      try {
+        const resolved = await resolveAliasChain(variable, modeId, options);
+        return formatVariableValue(resolved.variable, resolved.value, options);
+      } catch (error) {
+        resolveErrors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    const aliasVar = await getIndexedVariable(await getVariableIndex(), rawValue.id);
     if (aliasVar) {
       if (aliasVar.resolvedType === "COLOR") {
-        const aliasRawValues = (aliasVar).valuesByMode;
         let colorValue = "";
-        if (aliasRawValues && aliasRawValues[modeId]) {
-          colorValue = convertColorToCSS(aliasRawValues[modeId]);
+        try {
+          const resolved = await resolveAliasChain(variable, modeId, options);
+          colorValue = convertColorToCSS(resolved.value, options);
+        } catch (error) {
+          // No preview for chains that do not resolve
         }
         // Return alias with a delimiter separating the alias name and the color.
-        return "alias:" + aliasVar.name + colorValue;
+        return "alias:" + aliasVar.name + (colorValue ? ":::" + colorValue : "");
       }
       return "alias:" + aliasVar.name;
     }
     return "alias:Unknown";
   } else {
-    switch (variable.resolvedType) {
-      case "COLOR":
-        return convertColorToCSS(rawValue);
-      case "STRING":
-      case "FLOAT":
-      case "BOOLEAN":
-        return rawValue.toString();
-      default:
-        return rawValue.toString();
-    }
+    return formatVariableValue(variable, rawValue, options);
   }
 }
 
+// Short hash of a string (djb2, with the length), for comparing scan signatures.
+function hashString(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${text.length.toString(36)}.${(hash >>> 0).toString(36)}`;
+}
+
+// Scanned variables by id, with the signature of what their values were computed from
+const scanCache = new Map<string, { signature: string; scanned: ScannedVariable; resolveErrors: string[] }>();
+// Formatting options the cached values were computed with
+let scanCacheOptions = "";
+
+/**
+ * Signature of what a variable's scanned values depend on: its own data and, through its aliases,
+ * that of every variable down the chain, with the default mode of their collections.
+ * Memoized per scan in signatures.
+ */
+function getScanSignature(index: VariableIndex, variable: Variable, signatures: Map<string, string>): string {
+  const known = signatures.get(variable.id);
+  if (known !== undefined) return known;
+  // Stops alias cycles; the variables of a cycle only show errors or their target names
+  signatures.set(variable.id, "");
+  const targets = Object.keys(variable.valuesByMode).map((modeId) => {
+    const value = variable.valuesByMode[modeId];
+    if (!isVariableAlias(value)) return "";
+    const target = index.variablesById.get(value.id) || index.remoteVariables.get(value.id);
+    return target ? getScanSignature(index, target, signatures) : "missing";
+  });
+  const collection = index.collectionsById.get(variable.variableCollectionId);
+  const signature = hashString(JSON.stringify([
+    variable.name,
+    variable.key,
+    variable.variableCollectionId,
+    collection?.defaultModeId,
+    variable.resolvedType,
+    variable.valuesByMode,
+    variable.scopes,
+    variable.description,
+    variable.codeSyntax,
+    variable.hiddenFromPublishing,
+    targets,
+  ]));
+  signatures.set(variable.id, signature);
+  return signature;
+}
+
 /**
  * Scans all local variables and returns for each variable an object that includes:
  *    - name: the variable's name
  *    - collectionId: the collection to which it belongs
  *    - modeValues: an object mapping mode IDs to the variable's display value in that mode.
+ *    - rawValues: the untouched valuesByMode, used by the token exporters.
+ * Aliases that could not be resolved (with options.resolveAliases) are added to resolveErrors.
+ * Variables that have not changed since the last scan with the same options come from the cache.
+ * Posts progress, and throws CancelledError when the user cancels.
  */
-async function scanVariablesByMode(): Promise<{ name: string; collectionId: string; modeValues: Record<string, string>; codeSyntax?: string }[]> {
+async function scanVariablesByMode(options: ExportOptions = {}, resolveErrors: string[] = []): Promise<ScannedVariable[]> {
   try {
-    const localVariables = await figma.variables.getLocalVariablesAsync();
-    const result: { name: string; collectionId: string; modeValues: Record<string, string>; codeSyntax?: string }[] = [];
-    for (const variable of localVariables) {
-      const collectionId = (variable as any).variableCollectionId || "";
+    operationCancelRequested = false;
+    const index = await getVariableIndex();
+    await prefetchAliasTargets(index);
+    
+    // Only the formatting options change the values; a selection or contrast header does not
+    const optionsKey = JSON.stringify([
+      options.colorFormat, options.precision, options.serializeValues, options.lengthUnit,
+      options.remBase, options.collectionUnits, options.resolveAliases, options.resolveModes,
+    ]);
+    if (optionsKey !== scanCacheOptions) {
+      scanCache.clear();
+      scanCacheOptions = optionsKey;
+    }
+    
+    const signatures = new Map<string, string>();
+    const result: ScannedVariable[] = [];
+    for (let i = 0; i < index.variables.length; i++) {
+      const variable = index.variables[i];
+      if (i > 0 && i % PROGRESS_BATCH_SIZE === 0) {
+        await reportProgress("Scanning variables", i, index.variables.length);
+      }
+      const signature = getScanSignature(index, variable, signatures);
+      const cached = scanCache.get(variable.id);
+      if (cached && cached.signature === signature) {
+        resolveErrors.push(...cached.resolveErrors);
+        result.push(cached.scanned);
+        continue;
+      }
+      
+      const variableErrors: string[] = [];
       const modeValues: Record<string, string> = {};
-      const rawValues = (variable as any).valuesByMode as Record<string, any> | undefined;
-      if (rawValues) {
-        const modeIds = Object.keys(rawValues);
-        for (const modeId of modeIds) {
-          modeValues[modeId] = await getVariableDisplayValueForMode(variable, modeId);
-        }
+      const rawValues = variable.valuesByMode || {};
+      for (const modeId of Object.keys(rawValues)) {
+        modeValues[modeId] = await getVariableDisplayValueForMode(variable, modeId, options, variableErrors);
       }
-      // Here we assume that the variable may contain a "codeSyntax" property.
-      const codeSyntax = (variable as any).codeSyntax || "";
-      result.push({ name: variable.name, collectionId, modeValues, codeSyntax });
+      const scanned: ScannedVariable = {
+        id: variable.id,
+        key: variable.key,
+        name: variable.name,
+        collectionId: variable.variableCollectionId || "",
+        resolvedType: variable.resolvedType,
+        description: variable.description || "",
+        scopes: variable.scopes || [],
+        hiddenFromPublishing: variable.hiddenFromPublishing || false,
+        modeValues,
+        rawValues,
+        codeSyntax: variable.codeSyntax || {},
+      };
+      scanCache.set(variable.id, { signature, scanned, resolveErrors: variableErrors });
+      resolveErrors.push(...variableErrors);
+      result.push(scanned);
     }
+    
+    // Forget variables that were removed
+    scanCache.forEach((entry, id) => {
+      if (!index.variablesById.has(id)) scanCache.delete(id);
+    });
+    await reportProgress("Scanning variables", index.variables.length, index.variables.length);
     return result;
   } catch (error) {
+    // The command line reports errors itself
+    if (error instanceof CancelledError || HEADLESS) throw error;
     figma.ui.postMessage({
       type: "error",
       message:
@@ -146,15 +786,16 @@ async function scanVariablesByMode(): Promise<{ name: string; collectionId: stri
  * Retrieves available variable collections and maps necessary data:
  *    - id, name, and modes (each mode has modeId and name).
  */
-async function getAvailableCollections(): Promise<{ id: string; name: string; modes: { modeId: string; name: string }[] }[]> {
+async function getAvailableCollections(): Promise<ScannedCollection[]> {
   try {
-    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    const { collections } = await getVariableIndex();
     return collections.map((collection) => ({
       id: collection.id,
       name: collection.name,
       modes: collection.modes ? collection.modes.map((mode) => ({ modeId: mode.modeId, name: mode.name })) : [],
     }));
   } catch (error) {
+    if (HEADLESS) throw error;
     figma.ui.postMessage({
       type: "error",
       message:
@@ -165,529 +806,3741 @@ async function getAvailableCollections(): Promise<{ id: string; name: string; mo
   }
 }
 
-// =============================================
-// IMPORT FUNCTIONALITY (SECOND PLUGIN)
-// =============================================
-
-function parseCSSVariables(cssText: string): CSSCollection[] {
-  const collections: CSSCollection[] = [];
-  let currentCollection: CSSCollection | null = null;
-  let currentMode: string | null = null;
-  
-  // Split by CSS comment blocks to find collection and mode definitions
-  const lines = cssText.split('\n');
+/**
+ * Narrows an export to a selection: the picked variables with the alias targets they point to
+ * (followed through chains, when includeAliasTargets is set) and the picked modes of each collection.
+ * Collections come in the given order, followed by those only alias targets come from.
+ * The names of the added alias targets are pushed to addedAliasTargets.
+ */
+function applyExportSelection(
+  collectionIds: string[] | undefined,
+  collections: ScannedCollection[],
+  variables: ScannedVariable[],
+  selection: ExportSelection,
+  includeAliasTargets: boolean,
+  addedAliasTargets: string[] = []
+): { collections: ScannedCollection[]; variables: ScannedVariable[] } {
+  let exportedIds = collectionIds || collections.map((collection) => collection.id);
+  let exported = variables.filter((variable) => exportedIds.indexOf(variable.collectionId) !== -1);
   
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    
-    // Check for collection name
-    if (line.startsWith('/*') && line.includes('Collection name:')) {
-      const collectionName = line.match(/Collection name:\s*([^*]+)/)?.[1]?.trim();
-      if (collectionName) {
-        currentCollection = {
-          name: collectionName,
-          modes: new Map<string, CSSVariable[]>()
-        };
-        collections.push(currentCollection);
-      }
-    }
-    
-    // Check for mode name
-    else if (line.startsWith('/*') && line.includes('Mode:')) {
-      const modeName = line.match(/Mode:\s*([^*]+)/)?.[1]?.trim();
-      if (modeName && currentCollection) {
-        currentMode = modeName;
-        currentCollection.modes.set(currentMode, []);
-      }
-    }
-    
-    // Parse CSS variables
-    else if (line.includes('--') && line.includes(':') && currentCollection && currentMode) {
-      const match = line.match(/--([^:]+):\s*([^;]+);?/);
-      if (match) {
-        const name = match[1].trim();
-        const value = match[2].trim();
-        
-        const variables = currentCollection.modes.get(currentMode) || [];
-        variables.push({ name, value });
-        currentCollection.modes.set(currentMode, variables);
+  if (selection.variableIds) {
+    const variablesById = new Map(variables.map((variable) => [variable.id, variable] as [string, ScannedVariable]));
+    const selectedIds = new Set(selection.variableIds);
+    const pending = selection.variableIds.slice();
+    while (includeAliasTargets && pending.length > 0) {
+      const variable = variablesById.get(pending.pop() || "");
+      if (!variable) continue;
+      for (const modeId of Object.keys(variable.rawValues)) {
+        const value = variable.rawValues[modeId];
+        if (!isVariableAlias(value) || selectedIds.has(value.id) || !variablesById.has(value.id)) continue;
+        selectedIds.add(value.id);
+        pending.push(value.id);
+        addedAliasTargets.push(variablesById.get(value.id)?.name || value.id);
       }
     }
+    exported = variables.filter((variable) => selectedIds.has(variable.id));
+    // Only collections with something to export, and those alias targets come from
+    exportedIds = exportedIds
+      .concat(collections.map((collection) => collection.id).filter((id) => exportedIds.indexOf(id) === -1))
+      .filter((id) => exported.some((variable) => variable.collectionId === id));
   }
   
-  return collections;
+  const exportedCollections: ScannedCollection[] = [];
+  for (const id of exportedIds) {
+    const collection = collections.find((c) => c.id === id);
+    if (!collection) continue;
+    const modeIds = selection.modeIds?.[id];
+    const modes = modeIds ? collection.modes.filter((mode) => modeIds.indexOf(mode.modeId) !== -1) : collection.modes;
+    exportedCollections.push({ id: collection.id, name: collection.name, modes });
+  }
+  return { collections: exportedCollections, variables: exported };
 }
 
-async function createFigmaVariables(collections: CSSCollection[]) {
-  // Create maps to store variable references and their types
-  const variableMap = new Map<string, Variable>();
-  const variableTypes = new Map<string, VariableResolvedDataType>();
-  const variableValues = new Map<string, string>();
+// Collects the variable ids in a binding: an alias, or any array or object holding aliases.
+function collectAliasIds(value: unknown, ids: Set<string>) {
+  if (isVariableAlias(value)) {
+    ids.add(value.id);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectAliasIds(item, ids));
+  } else if (value && typeof value === "object") {
+    Object.keys(value).forEach((key) => collectAliasIds((value as Record<string, unknown>)[key], ids));
+  }
+}
+
+/**
+ * Adds the ids of the variables bound to one layer, not including its children: sizes, spacing and
+ * other layout properties, text properties, fills and strokes (including gradient stops), effects
+ * and layout grids.
+ */
+function collectNodeVariableIds(node: SceneNode, ids: Set<string>) {
+  const bindings: unknown[] = [node.boundVariables];
+  if ("fills" in node) bindings.push(node.fills);
+  if ("strokes" in node) bindings.push(node.strokes);
+  if ("effects" in node) bindings.push(node.effects);
+  if ("layoutGrids" in node) bindings.push(node.layoutGrids);
+  collectAliasIds(bindings, ids);
+}
+
+/**
+ * Ids of the local variables bound to the selected layers and the layers inside them.
+ * Variables from libraries are left out.
+ */
+async function getSelectionVariableIds(): Promise<string[]> {
+  const ids = new Set<string>();
+  const visit = (node: SceneNode) => {
+    collectNodeVariableIds(node, ids);
+    if ("children" in node) node.children.forEach(visit);
+  };
+  figma.currentPage.selection.forEach(visit);
   
-  // First pass: Collect all variables and their values
-  for (const collection of collections) {
-    for (const [modeName, variables] of collection.modes.entries()) {
-      for (const variable of variables) {
-        const varKey = `${collection.name}:${variable.name}`;
-        variableValues.set(`--${variable.name}`, variable.value);
+  const index = await getVariableIndex();
+  return Array.from(ids).filter((id) => index.variablesById.has(id));
+}
+
+// =============================================
+// CSS EXPORT
+// =============================================
+
+// How the modes of a collection are selected in CSS. The default mode always goes on :root.
+type ModeStrategy = "data-attribute" | "class" | "media" | "media-attribute" | "container-style" | "default-only";
+
+interface CollectionModeSettings {
+  strategy?: ModeStrategy;
+  // Mode written to :root; the collection's first mode when absent
+  defaultModeId?: string;
+}
+
+// Options for generateCSS, on top of the value formatting options.
+interface CSSExportOptions extends ExportOptions, ExportSelection {
+  // Name variables after their WEB code syntax where one is set
+  useCodeSyntax?: boolean;
+  // Write the default mode in full and, in other modes, only the values that differ from it
+  overridesOnly?: boolean;
+  // Prefix for the custom property names of each collection, keyed by collection id
+  collectionPrefixes?: Record<string, string>;
+  // Naming convention for the custom property names
+  naming?: NamingOptions;
+  // Annotate each declaration of the default mode with the variable's metadata
+  includeMetadata?: boolean;
+  // Mode strategy per collection, keyed by collection id ("data-attribute" when absent)
+  modeSettings?: Record<string, CollectionModeSettings>;
+  // Write a contrast report for the exported collections as a comment at the top
+  contrast?: ContrastOptions;
+}
+
+const THEME_ATTRIBUTE = "data-theme";
+const THEME_CLASS_PREFIX = "theme-";
+const THEME_CUSTOM_PROPERTY = "--theme";
+
+// Mode names that prefers-color-scheme can select; other modes fall back to the data attribute.
+const COLOR_SCHEMES = ["light", "dark"];
+
+// Lowercase, hyphenated form of a mode name or prefix for use in CSS.
+function toCSSIdentifier(name: string): string {
+  return name.replace(/\s+/g, "-").replace(/\//g, "-").toLowerCase();
+}
+
+// Normalized collection prefix, without surrounding dashes; empty when the collection has none.
+function getCollectionPrefix(collectionId: string, options: CSSExportOptions = {}): string {
+  return toCSSIdentifier(options.collectionPrefixes?.[collectionId] || "").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Custom property name (without "--") for a variable. Its WEB code syntax is used as is when requested;
+ * otherwise the name is built from the variable name, the naming options and its collection's prefix.
+ */
+function getCSSVariableName(variable: Pick<ScannedVariable, "name" | "collectionId" | "codeSyntax">, options: CSSExportOptions = {}): string {
+  const webSyntax = options.useCodeSyntax ? variable.codeSyntax.WEB : undefined;
+  if (webSyntax) {
+    // Code syntax is often written as var(--name)
+    return webSyntax.trim().replace(/^var\(\s*/, "").replace(/\s*\)$/, "").replace(/^--/, "");
+  }
+  const prefix = getCollectionPrefix(variable.collectionId, options);
+  return (prefix ? `${prefix}-` : "") + formatVariableName(variable.name, options.naming);
+}
+
+/**
+ * CSS value of a variable in a mode. Aliases become var() with the target's own CSS name,
+ * looked up by id in cssNames so that same-named variables of other collections are not confused.
+ */
+function toCSSValue(variable: ScannedVariable, modeId: string, cssNames: Map<string, string>): string {
+  const displayValue = variable.modeValues[modeId] || "";
+  if (!displayValue.startsWith("alias:")) return displayValue;
+  const rawValue = variable.rawValues[modeId];
+  const targetName = isVariableAlias(rawValue) ? cssNames.get(rawValue.id) : undefined;
+  // Drop the colour preview after the ":::" delimiter
+  return `var(--${targetName || formatVariableName(displayValue.slice(6).split(":::")[0])})`;
+}
+
+const METADATA_ANNOTATION = "@figma";
+
+// Types an "@figma" annotation may declare
+const ANNOTATED_TYPES: VariableResolvedDataType[] = ["COLOR", "FLOAT", "STRING", "BOOLEAN"];
+
+/**
+ * Builds the "@figma" annotation comment of a variable: its Figma name, key, type and scopes, and whichever of
+ * description, code syntax and publishing visibility differ from the defaults.
+ */
+function formatMetadataComment(variable: ScannedVariable): string {
+  // Scopes are always written, so that import does not guess narrower ones from the name
+  const metadata: VariableMetadata = { name: variable.name, key: variable.key, resolvedType: variable.resolvedType, scopes: variable.scopes };
+  if (variable.description) metadata.description = variable.description;
+  if (Object.keys(variable.codeSyntax).length > 0) metadata.codeSyntax = variable.codeSyntax;
+  if (variable.hiddenFromPublishing) metadata.hiddenFromPublishing = true;
+  // "*/" would end the comment early; "\/" is an equivalent JSON escape
+  return `/* ${METADATA_ANNOTATION} ${JSON.stringify(metadata).replace(/\*\//g, "*\\/")} */`;
+}
+
+/**
+ * Writes one collection as CSS. The default mode goes on :root; every other mode gets
+ * the selector of the collection's strategy:
+ *    - data-attribute: [data-theme="mode"]
+ *    - class: .theme-mode
+ *    - media: @media (prefers-color-scheme: mode) for light and dark, the attribute otherwise
+ *    - media-attribute: the media query (unless a data-theme is set) plus the attribute as an override
+ *    - container-style: @container style(--theme: mode)
+ *    - default-only: no other modes
+ * With overridesOnly, the other modes only list the variables whose value or alias differs from the default mode.
+ * With includeMetadata, each declaration of the default mode is preceded by its "@figma" annotation.
+ * Each block is preceded by "Collection name" and "Mode" comments (and a "Prefix" comment when the
+ * collection has one) so the file imports back as it was. cssNames maps every variable id to its CSS name.
+ * With include, only the declarations it accepts are written, and blocks left empty are dropped.
+ */
+function generateCollectionCSS(
+  collection: ScannedCollection,
+  variables: ScannedVariable[],
+  cssNames: Map<string, string>,
+  options: CSSExportOptions = {},
+  include?: (variable: ScannedVariable, modeId: string) => boolean
+): string[] {
+  const settings = options.modeSettings?.[collection.id] || {};
+  // A single mode only needs :root
+  const strategy = collection.modes.length > 1 ? settings.strategy || "data-attribute" : "default-only";
+  const defaultMode = collection.modes.find((mode) => mode.modeId === settings.defaultModeId) || collection.modes[0];
+  const lines: string[] = [`/* Collection name: ${collection.name} */`];
+  const prefix = getCollectionPrefix(collection.id, options);
+  if (prefix) lines.push(`/* Prefix: ${prefix} */`);
+  
+  const writeBlock = (mode: { modeId: string; name: string }, selector: string, atRule?: string) => {
+    const indent = atRule ? "  " : "";
+    const declarations: string[] = [];
+    variables.forEach((variable) => {
+      if (include && !include(variable, mode.modeId)) return;
+      const value = toCSSValue(variable, mode.modeId, cssNames);
+      if (options.overridesOnly && mode.modeId !== defaultMode.modeId && value === toCSSValue(variable, defaultMode.modeId, cssNames)) return;
+      if (options.includeMetadata && mode.modeId === defaultMode.modeId) {
+        declarations.push(`${indent}  ${formatMetadataComment(variable)}`);
       }
-    }
+      declarations.push(`${indent}  --${cssNames.get(variable.id)}: ${value};`);
+    });
+    if (include && declarations.length === 0) return;
+    lines.push(`/* Mode: ${mode.name} */`);
+    if (atRule) lines.push(`${atRule} {`);
+    lines.push(`${indent}${selector} {`);
+    lines.push(...declarations);
+    lines.push(`${indent}}`);
+    if (atRule) lines.push("}");
+    lines.push("");
+  };
+  
+  const attributeSelector = (mode: { name: string }) => `[${THEME_ATTRIBUTE}="${toCSSIdentifier(mode.name)}"]`;
+  const isColorScheme = (mode: { name: string }) => COLOR_SCHEMES.indexOf(mode.name.toLowerCase()) !== -1;
+  
+  switch (strategy) {
+    case "class":
+      writeBlock(defaultMode, `:root, .${THEME_CLASS_PREFIX}${toCSSIdentifier(defaultMode.name)}`);
+      break;
+    case "data-attribute":
+    case "media-attribute":
+      writeBlock(defaultMode, `:root, ${attributeSelector(defaultMode)}`);
+      break;
+    default:
+      writeBlock(defaultMode, ":root");
   }
   
-  // Second pass: Determine variable types
-  for (const collection of collections) {
-    for (const [modeName, variables] of collection.modes.entries()) {
-      for (const variable of variables) {
-        const varKey = `${collection.name}:${variable.name}`;
-        
-        if (!variableTypes.has(varKey)) {
-          let type: VariableResolvedDataType;
-          
-          // If it's a variable reference, try to determine the type from the referenced variable
-          if (variable.value.startsWith('var(--')) {
-            const referencedVarName = variable.value.match(/var\(--([^)]+)\)/)?.[1];
-            if (referencedVarName) {
-              // Try to find the referenced variable's value
-              const referencedValue = variableValues.get(`--${referencedVarName}`);
-              
-              if (referencedValue) {
-                // If the referenced value is also a reference, we need to go deeper
-                if (referencedValue.startsWith('var(--')) {
-                  // For now, use a heuristic based on the variable name
-                  type = determineTypeFromName(variable.name);
-                } else {
-                  // If the referenced value is a direct value, determine its type
-                  type = determineVariableType(referencedValue);
-                }
-              } else {
-                // If we can't find the referenced value, use a heuristic
-                type = determineTypeFromName(variable.name);
-              }
-            } else {
-              type = determineTypeFromName(variable.name);
-            }
-          } else {
-            // For direct values, determine the type from the value
-            type = determineVariableType(variable.value);
+  if (strategy === "default-only") return lines;
+  
+  collection.modes.forEach((mode) => {
+    if (mode.modeId === defaultMode.modeId) return;
+    const colorScheme = `@media (prefers-color-scheme: ${mode.name.toLowerCase()})`;
+    switch (strategy) {
+      case "class":
+        writeBlock(mode, `.${THEME_CLASS_PREFIX}${toCSSIdentifier(mode.name)}`);
+        break;
+      case "media":
+        if (isColorScheme(mode)) {
+          writeBlock(mode, ":root", colorScheme);
+        } else {
+          writeBlock(mode, attributeSelector(mode));
+        }
+        break;
+      case "media-attribute":
+        if (isColorScheme(mode)) {
+          writeBlock(mode, `:root:not([${THEME_ATTRIBUTE}])`, colorScheme);
+        }
+        writeBlock(mode, attributeSelector(mode));
+        break;
+      case "container-style":
+        writeBlock(mode, "*", `@container style(${THEME_CUSTOM_PROPERTY}: ${toCSSIdentifier(mode.name)})`);
+        break;
+      default:
+        writeBlock(mode, attributeSelector(mode));
+    }
+  });
+  
+  return lines;
+}
+
+/**
+ * Names that variables of more than one exported collection are written under, e.g. "color/primary"
+ * of two collections without prefixes: the later declaration overrides the earlier one, and an alias
+ * cannot tell them apart. Each is listed with the collections that declare it.
+ */
+function findNameCollisions(variables: ScannedVariable[], collections: ScannedCollection[], getName: (variable: ScannedVariable) => string): string[] {
+  const collectionNames = new Map<string, string[]>();
+  variables.forEach((variable) => {
+    const name = getName(variable);
+    const collection = collections.find((candidate) => candidate.id === variable.collectionId)?.name || variable.collectionId;
+    const names = collectionNames.get(name) || [];
+    if (names.indexOf(collection) === -1) names.push(collection);
+    collectionNames.set(name, names);
+  });
+  const collisions: string[] = [];
+  collectionNames.forEach((names, name) => {
+    if (names.length > 1) collisions.push(`${name} (${names.join(", ")})`);
+  });
+  return collisions;
+}
+
+/**
+ * Generates the CSS for the given collections, in order, with values formatted by the export options.
+ * Aliases that could not be resolved are added to resolveErrors, and names declared by more than one
+ * collection to nameCollisions.
+ */
+async function generateCSS(collectionIds: string[], options: CSSExportOptions = {}, resolveErrors: string[] = [], addedAliasTargets: string[] = [], nameCollisions: string[] = []): Promise<string> {
+  const variables = await scanVariablesByMode(options, resolveErrors);
+  // Resolved aliases need no declaration to point to
+  const selected = applyExportSelection(collectionIds, await getAvailableCollections(), variables, options, !options.resolveAliases, addedAliasTargets);
+  // Names of all variables, including collections that are not exported, for the aliases
+  const cssNames = new Map(variables.map((v) => [v.id, getCSSVariableName(v, options)] as [string, string]));
+  nameCollisions.push(...findNameCollisions(selected.variables, selected.collections, (v) => `--${cssNames.get(v.id)}`));
+  const lines: string[] = [];
+  if (options.contrast) {
+    const results = await buildContrastReport(options.contrast, selected.collections.map((collection) => collection.id), options);
+    lines.push(formatContrastComment(results));
+  }
+  for (const collection of selected.collections) {
+    if (collection.modes.length === 0) continue;
+    lines.push(...generateCollectionCSS(collection, selected.variables.filter((v) => v.collectionId === collection.id), cssNames, options));
+  }
+  return lines.join("\n");
+}
+
+// =============================================
+// DESIGN TOKENS (DTCG) EXPORT
+// =============================================
+
+type DTCGType = "color" | "dimension" | "number" | "fontWeight" | "fontFamily" | "string" | "boolean";
+
+interface DTCGToken {
+  $value: string | number | boolean;
+  $type: DTCGType;
+  $description?: string;
+}
+
+interface DTCGGroup {
+  [key: string]: DTCGGroup | DTCGToken;
+}
+
+
+/**
+ * Splits a Figma variable name into DTCG group segments.
+ * "/" separates groups; characters DTCG reserves in names ("." "{" "}") become "-".
+ */
+function toTokenPath(name: string): string[] {
+  return name
+    .split("/")
+    .map((segment) => segment.trim().replace(/[.{}]/g, "-").replace(/^\$+/, ""))
+    .filter((segment) => segment !== "");
+}
+
+/**
+ * Picks the DTCG $type for a variable from its resolved type and scopes.
+ */
+function getDTCGType(variable: ScannedVariable): DTCGType {
+  const scopes = variable.scopes;
+  switch (variable.resolvedType) {
+    case "COLOR":
+      return "color";
+    case "BOOLEAN":
+      return "boolean";
+    case "STRING":
+      return scopes.length > 0 && scopes.every((scope) => scope === "FONT_FAMILY") ? "fontFamily" : "string";
+    case "FLOAT":
+      if (scopes.length > 0 && scopes.every((scope) => scope === "FONT_WEIGHT")) return "fontWeight";
+      if (scopes.length > 0 && scopes.every((scope) => DIMENSION_SCOPES.indexOf(scope) !== -1)) return "dimension";
+      return "number";
+    default:
+      return "string";
+  }
+}
+
+/**
+ * Converts a raw Figma value to a DTCG $value. Aliases become "{group.token}" references
+ * so that the alias chain is preserved in the token file.
+ */
+async function toDTCGValue(
+  rawValue: VariableValue,
+  type: DTCGType,
+  variablesById: Map<string, ScannedVariable>
+): Promise<string | number | boolean> {
+  if (isVariableAlias(rawValue)) {
+    const target = variablesById.get(rawValue.id) || (await getIndexedVariable(await getVariableIndex(), rawValue.id));
+    if (!target) {
+      throw new Error(`Alias target ${rawValue.id} could not be found`);
+    }
+    return `{${toTokenPath(target.name).join(".")}}`;
+  }
+  switch (type) {
+    case "color":
+      return isRGBorRGBA(rawValue) ? convertColorToHex(rawValue) : String(rawValue);
+    case "dimension":
+      return `${rawValue}px`;
+    case "number":
+    case "fontWeight":
+      return Number(rawValue);
+    case "boolean":
+      return rawValue === true || String(rawValue) === "true";
+    default:
+      return String(rawValue);
+  }
+}
+
+/**
+ * Places a token in a token set, creating the intermediate groups of its path.
+ */
+function setTokenAtPath(tokenSet: DTCGGroup, path: string[], token: DTCGToken) {
+  let group = tokenSet;
+  for (const segment of path.slice(0, -1)) {
+    if (!group[segment]) {
+      group[segment] = {};
+    }
+    group = group[segment] as DTCGGroup;
+  }
+  const leaf = path[path.length - 1];
+  // A token may share its name with a group ("color/blue" and "color/blue/500"); keep both.
+  group[leaf] = Object.assign(group[leaf] || {}, token);
+}
+
+/**
+ * Builds a DTCG token file with one token set per collection and mode, keyed "Collection/Mode".
+ * When collectionIds is given, only those collections are exported; a selection narrows it further.
+ * References are not qualified by their set, so paths that more than one collection has are added
+ * to nameCollisions.
+ */
+async function buildDTCGTokens(collectionIds?: string[], selection: ExportSelection = {}, addedAliasTargets: string[] = [], nameCollisions: string[] = []): Promise<Record<string, DTCGGroup>> {
+  const variables = await scanVariablesByMode();
+  const variablesById = new Map(variables.map((variable) => [variable.id, variable] as [string, ScannedVariable]));
+  const selected = applyExportSelection(collectionIds, await getAvailableCollections(), variables, selection, true, addedAliasTargets);
+  nameCollisions.push(...findNameCollisions(selected.variables, selected.collections, (variable) => `{${toTokenPath(variable.name).join(".")}}`));
+  const tokenSets: Record<string, DTCGGroup> = {};
+
+  for (const collection of selected.collections) {
+    const collectionVars = selected.variables.filter((variable) => variable.collectionId === collection.id);
+
+    for (const mode of collection.modes) {
+      const tokenSet: DTCGGroup = {};
+      for (const variable of collectionVars) {
+        const rawValue = variable.rawValues[mode.modeId];
+        const path = toTokenPath(variable.name);
+        if (rawValue === undefined || path.length === 0) continue;
+
+        const type = getDTCGType(variable);
+        const token: DTCGToken = { $value: await toDTCGValue(rawValue, type, variablesById), $type: type };
+        if (variable.description) {
+          token.$description = variable.description;
+        }
+        setTokenAtPath(tokenSet, path, token);
+      }
+      tokenSets[`${collection.name}/${mode.name}`] = tokenSet;
+    }
+  }
+  return tokenSets;
+}
+
+// =============================================
+// STYLES EXPORT
+// =============================================
+
+// Text styles become utility classes (.text-heading) or a font shorthand custom property (--text-heading).
+type TextStyleFormat = "classes" | "shorthand";
+
+// Options chosen in the Styles section of the "Convert all variables" tab.
+interface StylesExportOptions extends CSSExportOptions {
+  textFormat?: TextStyleFormat;
+  // Which local styles to export (all kinds when absent)
+  includeText?: boolean;
+  includeEffects?: boolean;
+  includeGrids?: boolean;
+}
+
+// Figma's layer blur radius is twice the CSS blur() radius.
+const FIGMA_BLUR_RATIO = 2;
+
+/**
+ * CSS name of a style: its kind as the first group, then the style name, formatted with the
+ * naming options of the variable export. Dropped groups are counted from the style name only.
+ */
+function getStyleCSSName(kind: "text" | "effect" | "grid", name: string, naming: NamingOptions = {}): string {
+  const groups = name.split("/");
+  const kept = groups.slice(Math.min(naming.stripGroups || 0, groups.length - 1));
+  return formatVariableName([kind as string].concat(kept).join("/"), { ...naming, stripGroups: 0 });
+}
+
+// A length in px, or in rem when the export writes lengths in rem.
+function formatStyleLength(value: number, options: ExportOptions = {}): string {
+  if (value === 0) return "0";
+  if (options.serializeValues !== false && options.lengthUnit === "rem") {
+    return `${parseFloat((value / (options.remBase || DEFAULT_REM_BASE)).toFixed(4))}rem`;
+  }
+  return `${parseFloat(value.toFixed(4))}px`;
+}
+
+// What the style writers share: the variable index, the export options and the library variables referenced so far.
+interface StyleExportContext {
+  index: VariableIndex;
+  options: StylesExportOptions;
+  libraryNames: string[];
+}
+
+/**
+ * var() reference to a variable bound to a style, named like the variable export. Library variables
+ * are referenced too and recorded, as the export does not declare them.
+ */
+async function getStyleVariableReference(alias: VariableAlias | undefined, context: StyleExportContext): Promise<string | undefined> {
+  if (!alias) return undefined;
+  const variable = await getIndexedVariable(context.index, alias.id);
+  if (!variable) return undefined;
+  const cssName = getCSSVariableName({ name: variable.name, collectionId: variable.variableCollectionId, codeSyntax: variable.codeSyntax }, context.options);
+  if (variable.remote && context.libraryNames.indexOf(`--${cssName}`) === -1) context.libraryNames.push(`--${cssName}`);
+  return `var(--${cssName})`;
+}
+
+/**
+ * CSS declarations of a text style. Bound fields use var(); the weight and italics come from
+ * the font style name ("Semi Bold Italic") unless a font weight variable is bound.
+ */
+async function getTextStyleDeclarations(style: TextStyle, context: StyleExportContext): Promise<[string, string][]> {
+  const bound = style.boundVariables || {};
+  const styleWords = style.fontName.style.toLowerCase().split(/\s+/);
+  const italic = styleWords.indexOf("italic") !== -1 || styleWords.indexOf("oblique") !== -1;
+  const weightName = styleWords.filter((word) => word !== "italic" && word !== "oblique").join("");
+  const declarations: [string, string][] = [
+    ["font-family", (await getStyleVariableReference(bound.fontFamily, context)) || quoteFontFamily(style.fontName.family)],
+    ["font-weight", (await getStyleVariableReference(bound.fontWeight, context)) || String(FONT_WEIGHT_NAMES[weightName] || 400)],
+  ];
+  if (italic) declarations.push(["font-style", "italic"]);
+  declarations.push(["font-size", (await getStyleVariableReference(bound.fontSize, context)) || formatStyleLength(style.fontSize, context.options)]);
+
+  const lineHeight = await getStyleVariableReference(bound.lineHeight, context);
+  if (lineHeight) {
+    declarations.push(["line-height", lineHeight]);
+  } else if (style.lineHeight.unit === "PIXELS") {
+    declarations.push(["line-height", formatStyleLength(style.lineHeight.value, context.options)]);
+  } else if (style.lineHeight.unit === "PERCENT") {
+    declarations.push(["line-height", String(parseFloat((style.lineHeight.value / 100).toFixed(4)))]);
+  } else {
+    declarations.push(["line-height", "normal"]);
+  }
+
+  const letterSpacing = await getStyleVariableReference(bound.letterSpacing, context);
+  if (letterSpacing) {
+    declarations.push(["letter-spacing", letterSpacing]);
+  } else if (style.letterSpacing.value !== 0) {
+    declarations.push(["letter-spacing", style.letterSpacing.unit === "PERCENT"
+      ? `${parseFloat((style.letterSpacing.value / 100).toFixed(4))}em`
+      : formatStyleLength(style.letterSpacing.value, context.options)]);
+  }
+
+  switch (style.textCase) {
+    case "UPPER":
+      declarations.push(["text-transform", "uppercase"]);
+      break;
+    case "LOWER":
+      declarations.push(["text-transform", "lowercase"]);
+      break;
+    case "TITLE":
+      declarations.push(["text-transform", "capitalize"]);
+      break;
+    case "SMALL_CAPS":
+      declarations.push(["font-variant-caps", "small-caps"]);
+      break;
+    case "SMALL_CAPS_FORCED":
+      declarations.push(["font-variant-caps", "all-small-caps"]);
+      break;
+  }
+  if (style.textDecoration === "UNDERLINE") declarations.push(["text-decoration", "underline"]);
+  if (style.textDecoration === "STRIKETHROUGH") declarations.push(["text-decoration", "line-through"]);
+
+  const indent = await getStyleVariableReference(bound.paragraphIndent, context);
+  if (indent || style.paragraphIndent) declarations.push(["text-indent", indent || formatStyleLength(style.paragraphIndent, context.options)]);
+  return declarations;
+}
+
+/**
+ * Writes a text style as a utility class, or as a font shorthand custom property. The shorthand
+ * cannot hold letter spacing, case or decoration, so those get their own "--text-x-property".
+ */
+async function formatTextStyleCSS(style: TextStyle, context: StyleExportContext): Promise<string[]> {
+  const name = getStyleCSSName("text", style.name, context.options.naming);
+  const declarations = await getTextStyleDeclarations(style, context);
+  const lines = style.description ? [`  /* ${style.description.replace(/\*\//g, "* /")} */`] : [];
+  if (context.options.textFormat !== "shorthand") {
+    return [`.${name} {`].concat(lines, declarations.map(([property, value]) => `  ${property}: ${value};`), "}");
+  }
+
+  const get = (property: string) => (declarations.filter(([key]) => key === property)[0] || [])[1];
+  const shorthand = [get("font-style"), get("font-weight"), `${get("font-size")}/${get("line-height")}`, get("font-family")]
+    .filter((part) => part !== undefined)
+    .join(" ");
+  const shorthandProperties = ["font-style", "font-weight", "font-size", "line-height", "font-family"];
+  return lines
+    .concat(`  --${name}: ${shorthand};`)
+    .concat(declarations
+      .filter(([property]) => shorthandProperties.indexOf(property) === -1)
+      .map(([property, value]) => `  --${name}-${property}: ${value};`));
+}
+
+/**
+ * Writes an effect style as custom properties: shadows as one box-shadow list (inner shadows inset),
+ * a layer blur as "-filter" and a background blur as "-backdrop-filter". Hidden effects are skipped.
+ */
+async function formatEffectStyleCSS(style: EffectStyle, context: StyleExportContext): Promise<string[]> {
+  const name = getStyleCSSName("effect", style.name, context.options.naming);
+  const shadows: string[] = [];
+  const lines: string[] = [];
+  for (const effect of style.effects) {
+    if (!effect.visible) continue;
+    if (effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW") {
+      const bound = effect.boundVariables || {};
+      const length = async (field: VariableBindableEffectField, value: number) => (await getStyleVariableReference(bound[field], context)) || formatStyleLength(value, context.options);
+      const parts = [
+        await length("offsetX", effect.offset.x),
+        await length("offsetY", effect.offset.y),
+        await length("radius", effect.radius),
+        await length("spread", effect.spread || 0),
+        (await getStyleVariableReference(bound.color, context)) || convertColorToCSS(effect.color, context.options),
+      ];
+      shadows.push((effect.type === "INNER_SHADOW" ? "inset " : "") + parts.join(" "));
+    } else if (effect.type === "LAYER_BLUR" || effect.type === "BACKGROUND_BLUR") {
+      const radius = await getStyleVariableReference(effect.boundVariables?.radius, context);
+      const blur = radius ? `calc(${radius} / ${FIGMA_BLUR_RATIO})` : formatStyleLength(effect.radius / FIGMA_BLUR_RATIO, context.options);
+      lines.push(`  --${name}-${effect.type === "LAYER_BLUR" ? "filter" : "backdrop-filter"}: blur(${blur});`);
+    }
+  }
+  if (shadows.length > 0) lines.unshift(`  --${name}: ${shadows.join(", ")};`);
+  return lines;
+}
+
+/**
+ * Writes a grid style as custom properties per grid: columns and rows get their count, gutter,
+ * margin (Figma's offset) and, unless stretched, their width or height; a square grid gets its size.
+ */
+async function formatGridStyleCSS(style: GridStyle, context: StyleExportContext): Promise<string[]> {
+  const name = getStyleCSSName("grid", style.name, context.options.naming);
+  const lines: string[] = [];
+  const used: Record<string, number> = {};
+  for (const grid of style.layoutGrids) {
+    if (grid.visible === false) continue;
+    const kind = grid.pattern.toLowerCase();
+    used[kind] = (used[kind] || 0) + 1;
+    const gridName = `--${name}-${kind}${used[kind] > 1 ? `-${used[kind]}` : ""}`;
+    if (grid.pattern === "GRID") {
+      const size = await getStyleVariableReference(grid.boundVariables?.sectionSize, context);
+      lines.push(`  ${gridName}-size: ${size || formatStyleLength(grid.sectionSize, context.options)};`);
+      continue;
+    }
+    const bound = grid.boundVariables || {};
+    const length = async (field: VariableBindableLayoutGridField, value: number) => (await getStyleVariableReference(bound[field], context)) || formatStyleLength(value, context.options);
+    const count = (await getStyleVariableReference(bound.count, context)) || (grid.count === Infinity ? "auto" : String(grid.count));
+    lines.push(`  ${gridName}-count: ${count};`);
+    lines.push(`  ${gridName}-gutter: ${await length("gutterSize", grid.gutterSize)};`);
+    if (grid.alignment !== "CENTER") lines.push(`  ${gridName}-margin: ${await length("offset", grid.offset || 0)};`);
+    if (grid.alignment !== "STRETCH" && grid.sectionSize !== undefined) {
+      lines.push(`  ${gridName}-${grid.pattern === "COLUMNS" ? "width" : "height"}: ${await length("sectionSize", grid.sectionSize)};`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Writes the local text, effect and grid styles as CSS. Properties bound to variables are
+ * written as var() with the names the variable export gives them.
+ */
+async function generateStylesCSS(options: StylesExportOptions = {}): Promise<string> {
+  const context: StyleExportContext = { index: await getVariableIndex(), options, libraryNames: [] };
+  const sections: string[] = [];
+
+  if (options.includeText !== false) {
+    const styles = await figma.getLocalTextStylesAsync();
+    const blocks: string[] = [];
+    for (const style of styles) {
+      blocks.push((await formatTextStyleCSS(style, context)).join("\n"));
+    }
+    if (blocks.length > 0) {
+      sections.push(options.textFormat === "shorthand"
+        ? `/* Text styles */\n:root {\n${blocks.join("\n")}\n}`
+        : `/* Text styles */\n${blocks.join("\n\n")}`);
+    }
+  }
+  if (options.includeEffects !== false) {
+    const lines: string[] = [];
+    for (const style of await figma.getLocalEffectStylesAsync()) {
+      lines.push(...(await formatEffectStyleCSS(style, context)));
+    }
+    if (lines.length > 0) sections.push(`/* Effect styles */\n:root {\n${lines.join("\n")}\n}`);
+  }
+  if (options.includeGrids !== false) {
+    const lines: string[] = [];
+    for (const style of await figma.getLocalGridStylesAsync()) {
+      lines.push(...(await formatGridStyleCSS(style, context)));
+    }
+    if (lines.length > 0) sections.push(`/* Grid styles */\n:root {\n${lines.join("\n")}\n}`);
+  }
+
+  if (context.libraryNames.length > 0) {
+    sections.unshift(`/* From libraries: ${context.libraryNames.join(", ")} */`);
+  }
+  return sections.length > 0 ? sections.join("\n\n") + "\n" : "/* No local text, effect or grid styles */\n";
+}
+
+// =============================================
+// CONTRAST REPORT
+// =============================================
+
+// How foreground and background colours are paired for the contrast report.
+interface ContrastOptions {
+  // Regular expressions (case-insensitive) for foreground and background variable names; every
+  // foreground is paired with every background of the same collection
+  foregroundPattern?: string;
+  backgroundPattern?: string;
+  // Explicit pairs of Figma variable names, checked in each collection that has both
+  pairs?: { foreground: string; background: string }[];
+  // Also compute the APCA lightness contrast (Lc)
+  apca?: boolean;
+}
+
+// Contrast of one pair in one mode.
+interface ContrastResult {
+  collectionId: string;
+  collection: string;
+  mode: string;
+  foreground: string;
+  background: string;
+  // WCAG 2.x ratio from 1 to 21; absent when a colour could not be resolved
+  ratio?: number;
+  // APCA Lc, negative for light text on a dark background
+  apca?: number;
+  error?: string;
+}
+
+// WCAG 2.x minimum ratios. "Large" covers large text and UI components.
+const WCAG_AA = 4.5;
+const WCAG_AA_LARGE = 3;
+const WCAG_AAA = 7;
+
+// Composites a colour with alpha over an opaque background.
+function blendOver(color: RGBA, background: RGB): RGB {
+  return {
+    r: color.r * color.a + background.r * (1 - color.a),
+    g: color.g * color.a + background.g * (1 - color.a),
+    b: color.b * color.a + background.b * (1 - color.a),
+  };
+}
+
+// WCAG 2.x relative luminance of an sRGB colour.
+function relativeLuminance(color: RGB): number {
+  const channel = (value: number) => (value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4));
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+function wcagContrastRatio(foreground: RGB, background: RGB): number {
+  const lighter = Math.max(relativeLuminance(foreground), relativeLuminance(background));
+  const darker = Math.min(relativeLuminance(foreground), relativeLuminance(background));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * APCA lightness contrast (Lc) of text on a background, following the APCA-W3 0.0.98G constants.
+ * Positive for dark text on a light background, negative for light text on a dark one.
+ */
+function apcaContrast(text: RGB, background: RGB): number {
+  const luminance = (color: RGB) => {
+    const y = 0.2126729 * Math.pow(color.r, 2.4) + 0.7151522 * Math.pow(color.g, 2.4) + 0.072175 * Math.pow(color.b, 2.4);
+    // Soft clamp near black
+    return y > 0.022 ? y : y + Math.pow(0.022 - y, 1.414);
+  };
+  const textY = luminance(text);
+  const backgroundY = luminance(background);
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0;
+  
+  if (backgroundY > textY) {
+    const contrast = (Math.pow(backgroundY, 0.56) - Math.pow(textY, 0.57)) * 1.14;
+    return contrast < 0.1 ? 0 : (contrast - 0.027) * 100;
+  }
+  const contrast = (Math.pow(backgroundY, 0.65) - Math.pow(textY, 0.62)) * 1.14;
+  return contrast > -0.1 ? 0 : (contrast + 0.027) * 100;
+}
+
+// Highest WCAG level a ratio meets, for reports: "AAA", "AA", "AA large" or "fails".
+function wcagLevel(ratio: number): string {
+  if (ratio >= WCAG_AAA) return "AAA";
+  if (ratio >= WCAG_AA) return "AA";
+  if (ratio >= WCAG_AA_LARGE) return "AA large";
+  return "fails";
+}
+
+function compileContrastPattern(pattern: string | undefined, label: string): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    throw new Error(`Invalid ${label} pattern "${pattern}"`);
+  }
+}
+
+/**
+ * Checks the contrast of foreground and background colour pairs in every mode of the given
+ * collections (all when absent). Colours are resolved through alias chains with the export's
+ * resolve modes; a translucent foreground is blended over its background, and a translucent
+ * background over white.
+ */
+async function buildContrastReport(options: ContrastOptions, collectionIds?: string[], exportOptions: ExportOptions = {}): Promise<ContrastResult[]> {
+  const foregroundPattern = compileContrastPattern(options.foregroundPattern, "foreground");
+  const backgroundPattern = compileContrastPattern(options.backgroundPattern, "background");
+  const { collections, variables: allVariables } = await getVariableIndex();
+  const colorVariables = allVariables.filter((variable) => variable.resolvedType === "COLOR");
+  const results: ContrastResult[] = [];
+  
+  for (const collection of collections) {
+    if (collectionIds && collectionIds.indexOf(collection.id) === -1) continue;
+    const variables = colorVariables.filter((variable) => variable.variableCollectionId === collection.id);
+    const pairs: [Variable, Variable][] = [];
+    const addPair = (foreground: Variable, background: Variable) => {
+      if (foreground !== background && !pairs.some(([f, b]) => f === foreground && b === background)) {
+        pairs.push([foreground, background]);
+      }
+    };
+    if (foregroundPattern && backgroundPattern) {
+      const foregrounds = variables.filter((variable) => foregroundPattern.test(variable.name));
+      const backgrounds = variables.filter((variable) => backgroundPattern.test(variable.name));
+      foregrounds.forEach((foreground) => backgrounds.forEach((background) => addPair(foreground, background)));
+    }
+    for (const pair of options.pairs || []) {
+      const foreground = variables.find((variable) => variable.name === pair.foreground);
+      const background = variables.find((variable) => variable.name === pair.background);
+      if (foreground && background) addPair(foreground, background);
+    }
+    
+    for (const mode of collection.modes) {
+      for (const [foreground, background] of pairs) {
+        const result: ContrastResult = {
+          collectionId: collection.id,
+          collection: collection.name,
+          mode: mode.name,
+          foreground: foreground.name,
+          background: background.name,
+        };
+        try {
+          const foregroundColor = (await resolveAliasChain(foreground, mode.modeId, exportOptions)).value;
+          const backgroundColor = (await resolveAliasChain(background, mode.modeId, exportOptions)).value;
+          if (!isRGBorRGBA(foregroundColor) || !isRGBorRGBA(backgroundColor)) {
+            throw new Error("Not a colour");
           }
-          
-          variableTypes.set(varKey, type);
+          const white = { r: 1, g: 1, b: 1 };
+          const surface = blendOver({ a: 1, ...backgroundColor }, white);
+          const text = blendOver({ a: 1, ...foregroundColor }, surface);
+          result.ratio = wcagContrastRatio(text, surface);
+          if (options.apca) result.apca = apcaContrast(text, surface);
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : "Unknown error";
+        }
+        results.push(result);
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Comment for the top of the generated CSS listing each pair's ratio and WCAG level per mode.
+ * It avoids the words the importer reads as collection and mode hints.
+ */
+function formatContrastComment(results: ContrastResult[]): string {
+  const lines = [`/* Contrast (WCAG 2.x: AA ${WCAG_AA}:1, AA large ${WCAG_AA_LARGE}:1, AAA ${WCAG_AAA}:1)`];
+  for (const result of results) {
+    const pair = `[${result.collection}, ${result.mode}] ${result.foreground} on ${result.background}`;
+    let summary = result.error || `${result.ratio?.toFixed(2)}:1 ${wcagLevel(result.ratio || 0)}`;
+    if (result.apca !== undefined) summary += `, APCA Lc ${result.apca.toFixed(1)}`;
+    lines.push(`   ${pair}: ${summary}`.replace(/\*\//g, "*\\/"));
+  }
+  if (results.length === 0) lines.push("   No colour pairs matched");
+  lines.push("*/", "");
+  return lines.join("\n");
+}
+
+// =============================================
+// IMPORT FUNCTIONALITY (SECOND PLUGIN)
+// =============================================
+
+type CSSToken =
+  | { type: 'comment'; text: string }
+  | { type: 'text'; text: string }
+  | { type: '{' }
+  | { type: '}' }
+  | { type: ';' };
+
+// An open block while parsing: the mode its declarations belong to (null = the default mode),
+// and whether its declarations are imported at all.
+interface CSSBlock {
+  prelude: string;
+  isRule: boolean;
+  mode: string | null;
+  ignored: boolean;
+}
+
+// Collection used when the CSS has no "/* Collection name: */" hint.
+const DEFAULT_IMPORT_COLLECTION = 'Imported variables';
+const DEFAULT_IMPORT_MODE = 'Default';
+
+/**
+ * Splits CSS into comments, braces, semicolons and text runs.
+ * Strings and parenthesised content (url(), var() fallbacks...) stay intact inside text runs.
+ */
+function tokenizeCSS(cssText: string): CSSToken[] {
+  const tokens: CSSToken[] = [];
+  let text = '';
+  let parenDepth = 0;
+  
+  const flushText = () => {
+    if (text.trim()) {
+      tokens.push({ type: 'text', text });
+    }
+    text = '';
+  };
+  
+  for (let i = 0; i < cssText.length; i++) {
+    const char = cssText[i];
+    
+    if (char === '/' && cssText[i + 1] === '*') {
+      const end = cssText.indexOf('*/', i + 2);
+      const stop = end === -1 ? cssText.length : end;
+      tokens.push({ type: 'comment', text: cssText.slice(i + 2, stop).trim() });
+      i = stop + 1;
+    } else if (char === '"' || char === "'") {
+      // Copy the string, including escaped quotes
+      let j = i + 1;
+      while (j < cssText.length && cssText[j] !== char) {
+        j += cssText[j] === '\\' ? 2 : 1;
+      }
+      text += cssText.slice(i, j + 1);
+      i = j;
+    } else if (char === '(') {
+      parenDepth++;
+      text += char;
+    } else if (char === ')') {
+      parenDepth = Math.max(0, parenDepth - 1);
+      text += char;
+    } else if (parenDepth === 0 && (char === '{' || char === '}' || char === ';')) {
+      flushText();
+      tokens.push({ type: char });
+    } else {
+      text += char;
+    }
+  }
+  flushText();
+  
+  return tokens;
+}
+
+/**
+ * Works out which mode a selector list targets:
+ *    - :root, html, :host (optionally with :not()) and * → the default mode (null)
+ *    - [data-theme="dark"] or any other data attribute → "dark"
+ *    - .theme-dark, .dark-theme, .mode-dark, .dark → "dark"
+ * Returns undefined for selectors that do not define a theme (component-scoped variables).
+ */
+function modeFromSelector(selectorList: string): string | null | undefined {
+  let isRoot = false;
+  for (const selector of selectorList.split(',').map(s => s.trim())) {
+    const attributeMatch = selector.match(/^(?::root|html|:host|body)?\[data-[\w-]+\s*=\s*["']?([^"'\]]+)["']?\s*\]$/i);
+    if (attributeMatch) {
+      return attributeMatch[1].trim();
+    }
+    const classMatch = selector.match(/^(?::root|html|:host|body)?\.((?:theme|mode)-[\w-]+|[\w-]+-(?:theme|mode)|dark|light)$/i);
+    if (classMatch) {
+      return classMatch[1].replace(/^(theme|mode)-|-(theme|mode)$/i, '');
+    }
+    if (/^(:root|html|:host)(:not\([^)]*\))?$/i.test(selector) || selector === '*') {
+      isRoot = true;
+    }
+  }
+  return isRoot ? null : undefined;
+}
+
+/**
+ * Parses CSS custom properties into collections and modes.
+ * Modes come from the selector (:root, [data-theme], .theme-x) or the @media (prefers-color-scheme)
+ * or @container style(--theme: x) block a declaration sits in. "Collection name: X" and "Mode: Y" comments are optional hints:
+ * a collection comment applies until the next one, a mode comment names the next rule.
+ * A "Prefix: x" comment after the collection comment strips "x-" from that collection's names, and an
+ * "@figma {...}" comment carries the Figma name and metadata of the declaration that follows it.
+ * Variables a mode does not declare are inherited from the collection's first mode.
+ */
+function parseCSSVariables(cssText: string, issues: ImportIssue[] = []): CSSCollection[] {
+  const collections: CSSCollection[] = [];
+  const stack: CSSBlock[] = [];
+  let collectionHint: string | null = null;
+  let prefixHint: string | null = null;
+  let modeHint: string | null = null;
+  let metadataHint: VariableMetadata | null = null;
+  let pendingText = '';
+  
+  const getCollection = (name: string) => {
+    let collection = collections.find(c => c.name === name);
+    if (!collection) {
+      collection = { name, modes: new Map<string, CSSVariable[]>() };
+      collections.push(collection);
+    }
+    return collection;
+  };
+  
+  const addDeclaration = (declaration: string) => {
+    const block = stack[stack.length - 1];
+    const match = declaration.match(/^--([^:\s]+)\s*:([\s\S]*)$/);
+    if (!match) return;
+    
+    const cssName = match[1].trim();
+    const metadata = metadataHint;
+    metadataHint = null;
+    // Names carry the collection prefix in CSS but not in Figma; an annotation gives the exact Figma name
+    const name = metadata?.name || (prefixHint && cssName.startsWith(`${prefixHint}-`) ? cssName.slice(prefixHint.length + 1) : cssName);
+    const value = match[2].replace(/!important\s*$/i, '').replace(/\s+/g, ' ').trim();
+    const collectionName = collectionHint || DEFAULT_IMPORT_COLLECTION;
+    if (!block || !block.isRule || block.ignored) {
+      const context = block ? block.prelude : 'top level';
+      issues.push({ severity: 'warning', collection: collectionName, variable: name, message: `Skipped: declared in "${context}", which does not define a mode` });
+      return;
+    }
+    if (!value) {
+      issues.push({ severity: 'warning', collection: collectionName, variable: name, message: 'Skipped: the declaration has no value' });
+      return;
+    }
+    
+    const collection = getCollection(collectionName);
+    const modeName = block.mode || DEFAULT_IMPORT_MODE;
+    const variables = collection.modes.get(modeName) || [];
+    // A later declaration of the same property wins, as it would in the browser
+    const existing = variables.findIndex(v => (v.cssName || v.name) === cssName);
+    if (existing !== -1) {
+      variables.splice(existing, 1);
+    }
+    const variable: CSSVariable = { name, value };
+    if (name !== cssName) variable.cssName = cssName;
+    if (metadata) variable.metadata = metadata;
+    if (metadata?.resolvedType && ANNOTATED_TYPES.indexOf(metadata.resolvedType) !== -1) variable.type = metadata.resolvedType;
+    variables.push(variable);
+    collection.modes.set(modeName, variables);
+  };
+  
+  for (const token of tokenizeCSS(cssText)) {
+    if (token.type === 'comment' && token.text.trim().startsWith(METADATA_ANNOTATION)) {
+      // Metadata for the next declaration
+      try {
+        metadataHint = JSON.parse(token.text.trim().slice(METADATA_ANNOTATION.length));
+      } catch (error) {
+        issues.push({ severity: 'warning', collection: collectionHint || DEFAULT_IMPORT_COLLECTION, message: `Ignored an ${METADATA_ANNOTATION} comment that is not valid JSON` });
+      }
+    } else if (token.type === 'comment') {
+      const collectionName = token.text.match(/Collection name:\s*(.+)/)?.[1]?.trim();
+      const modeName = token.text.match(/Mode:\s*(.+)/)?.[1]?.trim();
+      const prefix = token.text.match(/Prefix:\s*(.+)/)?.[1]?.trim();
+      if (collectionName) {
+        collectionHint = collectionName;
+        prefixHint = null;
+      }
+      if (prefix) prefixHint = prefix;
+      if (modeName) modeHint = modeName;
+    } else if (token.type === 'text') {
+      pendingText += token.text;
+    } else if (token.type === '{') {
+      const prelude = pendingText.trim();
+      const parent = stack[stack.length - 1];
+      pendingText = '';
+      
+      if (prelude.startsWith('@')) {
+        const colorScheme = prelude.match(/^@media[^{]*prefers-color-scheme\s*:\s*(\w+)/i)?.[1];
+        const containerStyle = prelude.match(/^@container[^{]*style\(\s*--[\w-]+\s*:\s*([\w-]+)\s*\)/i)?.[1];
+        if (colorScheme || containerStyle) {
+          stack.push({ prelude, isRule: false, mode: colorScheme || containerStyle || null, ignored: false });
+        } else if (/^@(supports|layer|container)\b/i.test(prelude)) {
+          // Transparent wrappers: keep the surrounding context
+          stack.push({ prelude, isRule: false, mode: parent ? parent.mode : null, ignored: parent ? parent.ignored : false });
+        } else {
+          // Other @media queries, @font-face, @keyframes... do not define modes
+          stack.push({ prelude, isRule: false, mode: null, ignored: true });
+        }
+      } else {
+        const selectorMode = modeFromSelector(prelude);
+        const inheritedMode = parent ? parent.mode : null;
+        const block: CSSBlock = {
+          prelude,
+          isRule: true,
+          mode: modeHint || (selectorMode === undefined || selectorMode === null ? inheritedMode : selectorMode),
+          ignored: selectorMode === undefined || (parent ? parent.ignored : false),
+        };
+        stack.push(block);
+        // A named mode exists even when its block is empty, e.g. an overrides-only export
+        if (modeHint && !block.ignored) {
+          const collection = getCollection(collectionHint || DEFAULT_IMPORT_COLLECTION);
+          if (!collection.modes.has(modeHint)) collection.modes.set(modeHint, []);
+        }
+        modeHint = null;
+      }
+    } else {
+      addDeclaration(pendingText.trim());
+      pendingText = '';
+      if (token.type === '}') {
+        stack.pop();
+        metadataHint = null;
+      }
+    }
+  }
+  
+  // The default mode must come first: it becomes the collection's first Figma mode
+  for (const collection of collections) {
+    if (collection.modes.has(DEFAULT_IMPORT_MODE) && Array.from(collection.modes.keys())[0] !== DEFAULT_IMPORT_MODE) {
+      const reordered = new Map<string, CSSVariable[]>([[DEFAULT_IMPORT_MODE, collection.modes.get(DEFAULT_IMPORT_MODE) || []]]);
+      collection.modes.forEach((variables, name) => {
+        if (name !== DEFAULT_IMPORT_MODE) reordered.set(name, variables);
+      });
+      collection.modes = reordered;
+    }
+    shareAnnotatedNames(collection);
+    inheritFromFirstMode(collection);
+  }
+  
+  return collections;
+}
+
+// Gives the Figma name and key from an "@figma" annotation (written in one mode) to the same CSS variable in every mode.
+function shareAnnotatedNames(collection: CSSCollection) {
+  const annotations = new Map<string, VariableMetadata>();
+  collection.modes.forEach(variables => variables.forEach(variable => {
+    if (variable.metadata?.name) annotations.set(variable.cssName || variable.name, variable.metadata);
+  }));
+  collection.modes.forEach(variables => variables.forEach(variable => {
+    const annotation = annotations.get(variable.cssName || variable.name);
+    if (annotation?.name && !variable.metadata?.name) {
+      if (annotation.name !== variable.name) {
+        variable.cssName = variable.cssName || variable.name;
+        variable.name = annotation.name;
+      }
+      variable.metadata = Object.assign({}, variable.metadata, { name: annotation.name, key: annotation.key });
+    }
+  }));
+}
+
+/**
+ * Completes every mode with the first mode's variables it does not declare, as the cascade
+ * would from :root. Modes keep the first mode's variable order, followed by their own extras.
+ * Inherited entries keep the metadata and CSS name too, so a mirror import still matches them by key.
+ */
+function inheritFromFirstMode(collection: CSSCollection) {
+  const modes = Array.from(collection.modes.entries());
+  if (modes.length < 2) return;
+  const firstVariables = modes[0][1];
+  for (const [modeName, variables] of modes.slice(1)) {
+    const inherited = firstVariables.map(base => variables.find(v => v.name === base.name) || { ...base });
+    const extras = variables.filter(v => !firstVariables.some(base => base.name === v.name));
+    collection.modes.set(modeName, inherited.concat(extras));
+  }
+}
+
+/**
+ * Parses "var(--name)" or "var(--name, fallback)". Returns null for anything else,
+ * including expressions that merely contain a var() such as calc(). The name runs up to the
+ * comma or closing parenthesis, so token references with spaces ("var(--a/b c)") are kept whole.
+ */
+function parseVarReference(value: string): { name: string; fallback?: string } | null {
+  const match = value.trim().match(/^var\(\s*--([^,)]*[^,)\s])\s*(?:,\s*([\s\S]*?))?\s*\)$/);
+  if (!match) return null;
+  return { name: match[1], fallback: match[2] || undefined };
+}
+
+// Mode names from selectors are usually lowercase ("dark"), so match existing modes ignoring case.
+function findModeByName(collection: VariableCollection, modeName: string) {
+  return collection.modes.find(m => m.name.toLowerCase() === modeName.toLowerCase());
+}
+
+/**
+ * Finds the Figma variable an imported variable updates, in the given collection: the one with
+ * its annotated key when mirroring, otherwise (or when no variable has that key) the one with its name.
+ */
+function findExistingVariable(index: VariableIndex, collectionId: string, variable: CSSVariable, mirror = false): Variable | undefined {
+  const key = mirror ? variable.metadata?.key : undefined;
+  const byKey = key ? index.variablesByKey.get(key) : undefined;
+  if (byKey && byKey.variableCollectionId === collectionId) return byKey;
+  return findIndexedVariable(index, collectionId, variable.name);
+}
+
+// An imported variable with the collection it belongs to.
+interface ImportedVariableRef {
+  collection: string;
+  variable: CSSVariable;
+}
+
+// Indexes imported variables by the name var() references use, once per collection.
+function buildImportIndex(collections: CSSCollection[]): Map<string, ImportedVariableRef[]> {
+  const index = new Map<string, ImportedVariableRef[]>();
+  for (const collection of collections) {
+    collection.modes.forEach(variables => variables.forEach(variable => {
+      const key = variable.cssName || variable.name;
+      const refs = index.get(key) || [];
+      if (!refs.some(ref => ref.collection === collection.name)) {
+        refs.push({ collection: collection.name, variable });
+        index.set(key, refs);
+      }
+    }));
+  }
+  return index;
+}
+
+/**
+ * Finds the variable a var(--name) reference points to: the referencing collection's own variable
+ * first, then the only other collection that declares the name. When several other collections
+ * declare it, the first one wins and the ambiguity is reported.
+ */
+function resolveImportReference(
+  index: Map<string, ImportedVariableRef[]>,
+  name: string,
+  collectionName: string,
+  report?: ImportReporter
+): ImportedVariableRef | undefined {
+  const refs = index.get(name) || [];
+  const own = refs.find(ref => ref.collection === collectionName);
+  if (own) return own;
+  if (refs.length > 1) {
+    report?.('warning', `var(--${name}) is declared in ${refs.map(ref => `"${ref.collection}"`).join(', ')}; used "${refs[0].collection}"`);
+  }
+  return refs[0];
+}
+
+/**
+ * Renames imported CSS variables to Figma names by reversing the naming options. Existing variables
+ * of the same collection are matched first, then those of any collection, so a file exported from
+ * this document comes back with its groups. The CSS name is kept as cssName for resolving references.
+ */
+async function applyImportNaming(collections: CSSCollection[], naming: NamingOptions = {}) {
+  const index = await getVariableIndex();
+  // Known names by their CSS form, formatted once rather than per imported variable; the first name wins
+  const byCSSName = (variables: Variable[]) => variables.reduce((names, v) => {
+    const cssName = formatVariableName(v.name, naming);
+    if (!names.has(cssName)) names.set(cssName, v.name);
+    return names;
+  }, new Map<string, string>());
+  const allNames = byCSSName(index.variables);
+  for (const collection of collections) {
+    const figmaCollection = index.collectionsByName.get(collection.name);
+    const collectionNames = byCSSName(index.variables.filter(v => figmaCollection && v.variableCollectionId === figmaCollection.id));
+    collection.modes.forEach(variables => variables.forEach(variable => {
+      // Annotated names are already Figma names
+      if (variable.metadata?.name) return;
+      const name = collectionNames.get(variable.name) || allNames.get(variable.name) || parseVariableName(variable.name, naming);
+      if (name !== variable.name) {
+        variable.cssName = variable.cssName || variable.name;
+        variable.name = name;
+      }
+    }));
+  }
+}
+
+/**
+ * Works out the Figma type of every imported variable, keyed "collection:name".
+ * Declared types win, in whichever mode they are declared, and their keys are added to declaredTypes;
+ * references take the type of what they point to; anything else is guessed.
+ */
+function determineImportTypes(collections: CSSCollection[], issues: ImportIssue[] = [], declaredTypes = new Set<string>()): Map<string, VariableResolvedDataType> {
+  const variableTypes = new Map<string, VariableResolvedDataType>();
+  
+  // First pass: Index all variables by the name references use
+  const index = buildImportIndex(collections);
+  
+  // Second pass: Determine variable types
+  for (const collection of collections) {
+    for (const [modeName, variables] of collection.modes.entries()) {
+      for (const variable of variables) {
+        const varKey = `${collection.name}:${variable.name}`;
+        
+        // Use the type declared by the source when there is one
+        if (variable.type) {
+          variableTypes.set(varKey, variable.type);
+          declaredTypes.add(varKey);
+        } else if (!variableTypes.has(varKey)) {
+          let type: VariableResolvedDataType;
+          let usedNameHeuristic = false;
+          
+          // If it's a variable reference, try to determine the type from the referenced variable
+          if (parseVarReference(variable.value)) {
+            const reference = parseVarReference(variable.value);
+            const referencedVarName = reference?.name;
+            if (referencedVarName) {
+              // Try to find the referenced variable's value
+              const referencedValue = resolveImportReference(index, referencedVarName, collection.name)?.variable.value;
+              
+              if (referencedValue) {
+                // If the referenced value is also a reference, we need to go deeper
+                if (parseVarReference(referencedValue)) {
+                  // For now, use a heuristic based on the variable name
+                  type = determineTypeFromName(variable.name);
+                  usedNameHeuristic = true;
+                } else {
+                  // If the referenced value is a direct value, determine its type
+                  type = determineVariableType(referencedValue);
+                }
+              } else if (reference?.fallback) {
+                // If we can't find the referenced value, the fallback tells us the type
+                type = determineVariableType(reference.fallback);
+              } else {
+                // If we can't find the referenced value, use a heuristic
+                type = determineTypeFromName(variable.name);
+                usedNameHeuristic = true;
+              }
+            } else {
+              type = determineTypeFromName(variable.name);
+              usedNameHeuristic = true;
+            }
+          } else {
+            // For direct values, determine the type from the value
+            type = determineVariableType(variable.value);
+          }
+          
+          variableTypes.set(varKey, type);
+          if (usedNameHeuristic) {
+            issues.push({ severity: 'info', collection: collection.name, variable: variable.name, message: `Type guessed as ${type} from the variable name` });
+          }
+        }
+      }
+    }
+  }
+  
+  return variableTypes;
+}
+
+/**
+ * Type to import a variable as when it matches an existing one. Only a type the file declares
+ * replaces the existing type; a guessed one never does, so that booleans exported as 1 and 0 stay
+ * booleans and strings that look like numbers stay strings. When the value cannot fit the existing
+ * type, the guess is returned and the preview reports a type conflict.
+ */
+function getImportType(variable: CSSVariable, guessed: VariableResolvedDataType, existing: Variable | undefined, declared: boolean): VariableResolvedDataType {
+  if (!existing || declared || guessed === existing.resolvedType || parseVarReference(variable.value)) return guessed;
+  switch (existing.resolvedType) {
+    case 'STRING':
+      return 'STRING';
+    case 'BOOLEAN':
+      return /^(0|1|true|false)$/i.test(variable.value.trim()) ? 'BOOLEAN' : guessed;
+    default:
+      return guessed;
+  }
+}
+
+// Name patterns that give an imported variable a narrower scope than ALL_SCOPES, checked in order.
+// lengthOnly rules also need a px or rem value, since e.g. a line height of 1.5 is not in px.
+const IMPORT_SCOPE_RULES: { type: VariableResolvedDataType; pattern: RegExp; scopes: VariableScope[]; lengthOnly?: boolean }[] = [
+  { type: 'FLOAT', pattern: /opacity|alpha/, scopes: ['OPACITY'] },
+  { type: 'FLOAT', pattern: /weight/, scopes: ['FONT_WEIGHT'] },
+  { type: 'FLOAT', pattern: /font-?size|text-?size/, scopes: ['FONT_SIZE'] },
+  { type: 'FLOAT', pattern: /line-?height|leading/, scopes: ['LINE_HEIGHT'], lengthOnly: true },
+  { type: 'FLOAT', pattern: /letter-?spacing|tracking/, scopes: ['LETTER_SPACING'] },
+  { type: 'FLOAT', pattern: /radius|rounded/, scopes: ['CORNER_RADIUS'] },
+  { type: 'FLOAT', pattern: /border-?width|stroke/, scopes: ['STROKE_FLOAT'] },
+  { type: 'FLOAT', pattern: /blur|shadow/, scopes: ['EFFECT_FLOAT'] },
+  { type: 'FLOAT', pattern: /gap|spacing|space|padding|margin|inset/, scopes: ['GAP'] },
+  { type: 'FLOAT', pattern: /width|height|size/, scopes: ['WIDTH_HEIGHT'] },
+  { type: 'STRING', pattern: /font-?family|typeface/, scopes: ['FONT_FAMILY'] },
+  { type: 'STRING', pattern: /font-?style/, scopes: ['FONT_STYLE'] },
+  { type: 'COLOR', pattern: /shadow/, scopes: ['EFFECT_COLOR'] },
+  { type: 'COLOR', pattern: /border|stroke|outline/, scopes: ['STROKE_COLOR'] },
+  { type: 'COLOR', pattern: /text|foreground|fg/, scopes: ['TEXT_FILL'] },
+  { type: 'COLOR', pattern: /background|bg|surface|fill/, scopes: ['FRAME_FILL', 'SHAPE_FILL'] },
+];
+
+// Scopes for a new variable, guessed from its name; null keeps Figma's default (all scopes).
+function inferImportScopes(name: string, type: VariableResolvedDataType, value: string): VariableScope[] | null {
+  const lowerName = name.toLowerCase();
+  const isLength = /\d(px|rem)$/i.test(value.trim());
+  const rule = IMPORT_SCOPE_RULES.find(rule => rule.type === type && rule.pattern.test(lowerName));
+  if (!rule || (rule.lengthOnly && !isLength)) return null;
+  return rule.scopes;
+}
+
+async function createFigmaVariables(collections: CSSCollection[], issues: ImportIssue[] = [], options: ImportOptions = {}) {
+  operationCancelRequested = false;
+  // Created variables keyed "collection:name", and imported names for resolving references
+  const variableMap = new Map<string, Variable>();
+  const index = buildImportIndex(collections);
+  const declaredTypes = new Set<string>();
+  const variableTypes = determineImportTypes(collections, issues, declaredTypes);
+  const figmaIndex = await getVariableIndex();
+  // Existing variables whose type conflicts with the import and was not approved to change
+  const keptTypes = new Set<string>();
+  
+  // Each declaration is visited twice: once to create the variable, once to set its value
+  let done = 0;
+  const total = 2 * collections.reduce((sum, collection) =>
+    sum + Array.from(collection.modes.values()).reduce((count, variables) => count + variables.length, 0), 0);
+  const step = async () => {
+    done++;
+    if (done % PROGRESS_BATCH_SIZE === 0) {
+      await reportProgress("Importing variables", done, total);
+    }
+  };
+  
+  // Third pass: Create collections and variables
+  for (const collection of collections) {
+    let figmaCollection = figmaIndex.collectionsByName.get(collection.name);
+    
+    // Create collection if it doesn't exist
+    if (!figmaCollection) {
+      const firstModeName = Array.from(collection.modes.keys())[0] || "Default";
+      figmaCollection = figma.variables.createVariableCollection(collection.name);
+      
+      if (figmaCollection.modes.length > 0) {
+        const defaultMode = figmaCollection.modes[0];
+        figmaCollection.renameMode(defaultMode.modeId, firstModeName);
+      }
+      addCollectionToIndex(figmaIndex, figmaCollection);
+    }
+    
+    // Process each mode in the collection
+    for (const [modeName, variables] of collection.modes.entries()) {
+      // Check if mode exists, create if not
+      let modeId = findModeByName(figmaCollection, modeName)?.modeId;
+      if (!modeId) {
+        if (modeName === figmaCollection.modes[0]?.name) {
+          modeId = figmaCollection.modes[0].modeId;
+        } else {
+          modeId = figmaCollection.addMode(modeName);
+        }
+      }
+      
+      // Create all variables
+      for (const variable of variables) {
+        await step();
+        const report: ImportReporter = (severity, message) => {
+          issues.push({ severity, collection: collection.name, mode: modeName, variable: variable.name, message });
+        };
+        const varKey = `${collection.name}:${variable.name}`;
+        const variableType = variableTypes.get(varKey) || determineVariableType(variable.value);
+        
+        // Check if variable exists (already handled in an earlier mode when it is in variableMap)
+        let figmaVariable = variableMap.get(varKey) || findExistingVariable(figmaIndex, figmaCollection.id, variable, options.mirror);
+        
+        if (figmaVariable && options.mirror && !variableMap.has(varKey)) {
+          if (figmaVariable.name !== variable.name) {
+            try {
+              figmaVariable.name = variable.name;
+              addVariableToIndex(figmaIndex, figmaVariable);
+            } catch (error: unknown) {
+              report('error', `Could not rename "${figmaVariable.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+          }
+          // Only a type the file declares replaces the existing one (see getImportType)
+          if (figmaVariable.resolvedType !== variableType && declaredTypes.has(varKey)) {
+            figmaVariable = await recreateVariableWithType(figmaIndex, figmaVariable, variableType, report);
+          }
+        }
+        
+        // A type conflict (see planImport) only changes the variable when it was approved
+        if (figmaVariable && !variableMap.has(varKey)) {
+          const importType = getImportType(variable, variableType, figmaVariable, declaredTypes.has(varKey));
+          if (figmaVariable.resolvedType !== importType) {
+            if (variable.retype) {
+              figmaVariable = await recreateVariableWithType(figmaIndex, figmaVariable, importType, report);
+            } else {
+              keptTypes.add(varKey);
+              report('warning', `Kept the existing ${figmaVariable.resolvedType} variable and its values: the value is a ${importType}`);
+            }
+          }
+        }
+        
+        // Create variable if it doesn't exist
+        if (!figmaVariable) {
+          figmaVariable = figma.variables.createVariable(
+            variable.name,
+            figmaCollection,
+            variableType
+          );
+          const scopes = inferImportScopes(variable.name, variableType, variable.value);
+          if (scopes) {
+            figmaVariable.scopes = scopes;
+          }
+          addVariableToIndex(figmaIndex, figmaVariable);
+        }
+        
+        if (variable.metadata) {
+          applyVariableMetadata(figmaVariable, variable.metadata, report);
+        }
+        
+        // Store the variable for later reference
+        variableMap.set(varKey, figmaVariable);
+      }
+    }
+  }
+  
+  // Fourth pass: Set values after all variables are created
+  for (const collection of collections) {
+    const figmaCollection = figmaIndex.collectionsByName.get(collection.name);
+    
+    if (figmaCollection) {
+      for (const [modeName, variables] of collection.modes.entries()) {
+        const modeId = findModeByName(figmaCollection, modeName)?.modeId;
+        
+        if (modeId) {
+          for (const variable of variables) {
+            await step();
+            const varKey = `${collection.name}:${variable.name}`;
+            const figmaVariable = variableMap.get(varKey);
+            
+            if (figmaVariable && !variable.skipValue && !keptTypes.has(varKey)) {
+              const report: ImportReporter = (severity, message) => {
+                issues.push({ severity, collection: collection.name, mode: modeName, variable: variable.name, message });
+              };
+              const findVariable = (name: string) => {
+                const target = resolveImportReference(index, name, collection.name, report);
+                return target && variableMap.get(`${target.collection}:${target.variable.name}`);
+              };
+              try {
+                const value = await parseVariableValue(variable.value, figmaVariable.resolvedType, findVariable, report, options.remBase, figmaVariable.scopes);
+                figmaVariable.setValueForMode(modeId, value);
+              } catch (error: unknown) {
+                // Properly handle the unknown error type
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                report('error', `Could not set value "${variable.value}": ${errorMessage}`);
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+// Restores the description, scopes, code syntax and publishing visibility from an "@figma" annotation.
+function applyVariableMetadata(figmaVariable: Variable, metadata: VariableMetadata, report: ImportReporter) {
+  const restore = (property: string, apply: () => void) => {
+    try {
+      apply();
+    } catch (error: unknown) {
+      report('warning', `Could not restore ${property}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  if (metadata.description !== undefined) {
+    restore('the description', () => { figmaVariable.description = String(metadata.description); });
+  }
+  if (metadata.scopes) {
+    restore('the scopes', () => { figmaVariable.scopes = metadata.scopes || []; });
+  }
+  if (metadata.hiddenFromPublishing !== undefined) {
+    restore('the publishing visibility', () => { figmaVariable.hiddenFromPublishing = Boolean(metadata.hiddenFromPublishing); });
+  }
+  const codeSyntax = metadata.codeSyntax || {};
+  for (const platform of Object.keys(codeSyntax) as CodeSyntaxPlatform[]) {
+    restore(`the ${platform} code syntax`, () => figmaVariable.setVariableCodeSyntax(platform, codeSyntax[platform] || ''));
+  }
+}
+
+/**
+ * Changes the type of a variable, which Figma only allows by creating a new one: the replacement
+ * takes over the name, description, publishing visibility and code syntax, every alias and node
+ * binding is moved to it, and the old variable is removed. Scopes are left to the new type's defaults.
+ */
+async function recreateVariableWithType(index: VariableIndex, oldVariable: Variable, type: VariableResolvedDataType, report: ImportReporter): Promise<Variable> {
+  const collection = index.collectionsById.get(oldVariable.variableCollectionId);
+  if (!collection) {
+    throw new Error(`Collection of "${oldVariable.name}" not found`);
+  }
+  const name = oldVariable.name;
+  const newVariable = figma.variables.createVariable(`${name} (${type.toLowerCase()})`, collection, type);
+  newVariable.description = oldVariable.description;
+  newVariable.hiddenFromPublishing = oldVariable.hiddenFromPublishing;
+  const codeSyntax = oldVariable.codeSyntax || {};
+  for (const platform of Object.keys(codeSyntax) as CodeSyntaxPlatform[]) {
+    newVariable.setVariableCodeSyntax(platform, codeSyntax[platform] || '');
+  }
+  
+  await rebindVariableConsumers(index, oldVariable, newVariable, report);
+  oldVariable.remove();
+  newVariable.name = name;
+  removeVariableFromIndex(index, oldVariable.id);
+  addVariableToIndex(index, newVariable);
+  report('info', `Changed type from ${oldVariable.resolvedType} to ${type}`);
+  return newVariable;
+}
+
+/**
+ * Points everything bound to one variable at another: aliases in other variables, node
+ * properties, fills, strokes, effects and layout grids on every page, and local paint, text,
+ * effect and grid styles. Bindings the new variable cannot take (e.g. a fill bound to what is
+ * now a number) are reported and left as they are.
+ */
+async function rebindVariableConsumers(index: VariableIndex, from: Variable, to: Variable, report: ImportReporter) {
+  const isBound = (alias?: VariableAlias) => !!alias && alias.id === from.id;
+  const rebind = (target: string, apply: () => void) => {
+    try {
+      apply();
+    } catch (error: unknown) {
+      report('warning', `Could not rebind ${target}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
+  // Paints, effects and layout grids hold their bindings per item, on nodes and styles alike
+  const isBoundPaint = (paint: Paint) => paint.type === 'SOLID' && isBound(paint.boundVariables?.color);
+  const rebindPaints = (paints: readonly Paint[]) => paints.map(paint =>
+    paint.type === 'SOLID' && isBoundPaint(paint) ? figma.variables.setBoundVariableForPaint(paint, 'color', to) : paint);
+  const effectFields = (effect: Effect) => {
+    const effectBindings: { [field in VariableBindableEffectField]?: VariableAlias } = effect.boundVariables || {};
+    return (Object.keys(effectBindings) as VariableBindableEffectField[]).filter(effectField => isBound(effectBindings[effectField]));
+  };
+  const rebindEffects = (effects: readonly Effect[]) => effects.map(effect =>
+    effectFields(effect).reduce((updated, effectField) => figma.variables.setBoundVariableForEffect(updated, effectField, to), effect));
+  const gridFields = (grid: LayoutGrid) => {
+    const gridBindings: { [field in VariableBindableLayoutGridField]?: VariableAlias } = grid.boundVariables || {};
+    return (Object.keys(gridBindings) as VariableBindableLayoutGridField[]).filter(gridField => isBound(gridBindings[gridField]));
+  };
+  const rebindLayoutGrids = (grids: readonly LayoutGrid[]) => grids.map(grid =>
+    gridFields(grid).reduce((updated, gridField) => figma.variables.setBoundVariableForLayoutGrid(updated, gridField, to), grid));
+  
+  const alias = figma.variables.createVariableAlias(to);
+  for (const variable of index.variables) {
+    const modeIds = Object.keys(variable.valuesByMode).filter(modeId => {
+      const value = variable.valuesByMode[modeId];
+      return isVariableAlias(value) && isBound(value);
+    });
+    if (modeIds.length > 0) {
+      rebind(`"${variable.name}"`, () => modeIds.forEach(modeId => variable.setValueForMode(modeId, alias)));
+    }
+  }
+  
+  await figma.loadAllPagesAsync();
+  const nodes = figma.root.children
+    .map(page => page.findAll(node => !!node.boundVariables))
+    .reduce((all, pageNodes) => all.concat(pageNodes), [] as SceneNode[]);
+  for (const node of nodes) {
+    const bound = node.boundVariables || {};
+    const target = `"${node.name}"`;
+    
+    for (const field of Object.keys(bound) as (keyof typeof bound)[]) {
+      if (field === 'fills' || field === 'strokes') {
+        const paintNode = node as SceneNode & MinimalFillsMixin & MinimalStrokesMixin;
+        const paints = paintNode[field];
+        if (paints === figma.mixed || !paints.some(isBoundPaint)) continue;
+        rebind(`the ${field} of ${target}`, () => { paintNode[field] = rebindPaints(paints); });
+      } else if (field === 'effects') {
+        const effectNode = node as SceneNode & BlendMixin;
+        if (!effectNode.effects.some(effect => effectFields(effect).length > 0)) continue;
+        rebind(`the effects of ${target}`, () => { effectNode.effects = rebindEffects(effectNode.effects); });
+      } else if (field === 'layoutGrids') {
+        const gridNode = node as SceneNode & BaseFrameMixin;
+        if (!gridNode.layoutGrids.some(grid => gridFields(grid).length > 0)) continue;
+        rebind(`the layout grids of ${target}`, () => { gridNode.layoutGrids = rebindLayoutGrids(gridNode.layoutGrids); });
+      } else if (field === 'componentProperties' || field === 'textRangeFills') {
+        const aliases = field === 'componentProperties' ? Object.keys(bound.componentProperties || {}).map(name => (bound.componentProperties || {})[name]) : bound.textRangeFills || [];
+        if (aliases.some(isBound)) {
+          report('warning', `Could not rebind the ${field === 'componentProperties' ? 'component properties' : 'text range fills'} of ${target}; rebind them by hand`);
+        }
+      } else {
+        // Text fields hold one alias per styled range; a node bound across all its ranges is rebound as a whole
+        const value = bound[field] as VariableAlias | VariableAlias[] | undefined;
+        const aliases = Array.isArray(value) ? value : value ? [value] : [];
+        if (!aliases.some(isBound)) continue;
+        if (aliases.every(isBound)) {
+          rebind(`the ${field} of ${target}`, () => node.setBoundVariable(field as VariableBindableNodeField | VariableBindableTextField, to));
+        } else {
+          report('warning', `Could not rebind the ${field} of ${target}: only some of its text ranges use the variable`);
+        }
+      }
+    }
+  }
+  
+  // Styles are not on any page, and keep bindings of their own
+  for (const style of await figma.getLocalPaintStylesAsync()) {
+    if (!style.paints.some(isBoundPaint)) continue;
+    rebind(`the paint style "${style.name}"`, () => { style.paints = rebindPaints(style.paints); });
+  }
+  for (const style of await figma.getLocalTextStylesAsync()) {
+    const bound = style.boundVariables || {};
+    for (const field of (Object.keys(bound) as VariableBindableTextField[]).filter(field => isBound(bound[field]))) {
+      rebind(`the ${field} of the text style "${style.name}"`, () => style.setBoundVariable(field, to));
+    }
+  }
+  for (const style of await figma.getLocalEffectStylesAsync()) {
+    if (!style.effects.some(effect => effectFields(effect).length > 0)) continue;
+    rebind(`the effect style "${style.name}"`, () => { style.effects = rebindEffects(style.effects); });
+  }
+  for (const style of await figma.getLocalGridStylesAsync()) {
+    if (!style.layoutGrids.some(grid => gridFields(grid).length > 0)) continue;
+    rebind(`the grid style "${style.name}"`, () => { style.layoutGrids = rebindLayoutGrids(style.layoutGrids); });
+  }
+}
+
+// Helper function to determine variable type from its name
+function determineTypeFromName(name: string): VariableResolvedDataType {
+  const lowerName = name.toLowerCase();
+  
+  // Check for color-related names
+  if (lowerName.includes('color') || 
+      lowerName.includes('background') || 
+      lowerName.includes('bg-') ||
+      lowerName.includes('border') || 
+      lowerName.includes('fill') ||
+      lowerName.includes('stroke') ||
+      lowerName.includes('shadow')) {
+    return 'COLOR';
+  }
+  
+  // Check for number-related names
+  if (lowerName.includes('weight') || 
+      lowerName.includes('size') || 
+      lowerName.includes('scale') ||
+      lowerName.includes('spacing') ||
+      lowerName.includes('radius') ||
+      lowerName.includes('opacity') ||
+      lowerName.includes('width') ||
+      lowerName.includes('height') ||
+      lowerName.includes('padding') ||
+      lowerName.includes('margin')) {
+    return 'FLOAT';
+  }
+  
+  // Default to STRING for other names
+  return 'STRING';
+}
+
+function determineVariableType(value: string): VariableResolvedDataType {
+  // Check if it's a reference to another variable
+  if (parseVarReference(value)) {
+    // For references, we need to determine the type based on the variable name or context
+    const referencedVarName = parseVarReference(value)?.name.toLowerCase();
+    
+    if (referencedVarName) {
+      // Try to infer type from variable name
+      if (referencedVarName.includes('color') || 
+          referencedVarName.includes('background') || 
+          referencedVarName.includes('border') ||
+          referencedVarName.includes('fill') ||
+          referencedVarName.includes('stroke')) {
+        return 'COLOR';
+      }
+      
+      if (referencedVarName.includes('weight') || 
+          referencedVarName.includes('size') || 
+          referencedVarName.includes('scale') ||
+          referencedVarName.includes('spacing') ||
+          referencedVarName.includes('radius') ||
+          referencedVarName.includes('opacity')) {
+        return 'FLOAT';
+      }
+      
+      if (referencedVarName.includes('font') || 
+          referencedVarName.includes('family') || 
+          referencedVarName.includes('text') ||
+          referencedVarName.includes('name')) {
+        return 'STRING';
+      }
+      
+      // Default to STRING for variable references if we can't determine
+      return 'STRING';
+    }
+  }
+  
+  // Check if it's a color, in any CSS Color 4 syntax (including named colours)
+  if (parseCSSColor(value)) {
+    return 'COLOR';
+  }
+  
+  // Check if it's a number with units (for FLOAT)
+  if (/^-?\d*\.?\d+(px|rem|em|%|vw|vh|vmin|vmax)$/.test(value)) {
+    return 'FLOAT';
+  }
+  
+  // Check if it's a plain number
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return 'FLOAT';
+  }
+  
+  // Default to STRING for anything else
+  return 'STRING';
+}
+
+async function parseVariableValue(
+  value: string, 
+  type: VariableResolvedDataType, 
+  findVariable: (name: string) => Variable | undefined,
+  report?: ImportReporter,
+  remBase: number = DEFAULT_REM_BASE,
+  scopes: VariableScope[] = []
+): Promise<VariableValue> {
+  // Handle variable references
+  const reference = parseVarReference(value);
+  if (reference) {
+    const referencedVarName = reference.name;
+    if (referencedVarName) {
+      // Find the referenced variable from our map
+      const referencedVar = findVariable(referencedVarName);
+      
+      if (referencedVar) {
+        // Return a variable alias regardless of type
+        // Figma will handle the type conversion if needed
+        return {
+          type: 'VARIABLE_ALIAS',
+          id: referencedVar.id
+        };
+      } else if (reference.fallback) {
+        // Use the var() fallback when the referenced variable is unknown
+        report?.('warning', `var(--${referencedVarName}) did not resolve; used its fallback ${reference.fallback}`);
+        return parseVariableValue(reference.fallback, type, findVariable, report, remBase, scopes);
+      } else {
+        // If referenced variable doesn't exist yet, provide a default value based on type
+        report?.('warning', `var(--${referencedVarName}) did not resolve; used a default ${type} value`);
+        switch (type) {
+          case 'COLOR':
+            return { r: 0, g: 0, b: 0 }; // Default black
+          case 'FLOAT':
+            return 0;
+          case 'BOOLEAN':
+            return false;
+          case 'STRING':
+          default:
+            return value;
+        }
+      }
+    }
+  }
+  
+  // Handle direct values based on type
+  switch (type) {
+    case 'COLOR':
+      return parseColorValue(value, report);
+    case 'FLOAT':
+      return parseFloatValue(value, report, remBase, hasOnlyScopes(scopes, ['OPACITY']));
+    case 'BOOLEAN':
+      return parseBooleanValue(value);
+    case 'STRING':
+    default:
+      return hasOnlyScopes(scopes, ['FONT_FAMILY']) ? unquoteFontFamily(value) : unquoteCSSString(value);
+  }
+}
+
+// Accepts the 1/0 form written by the type-aware export as well as true/false.
+function parseBooleanValue(value: string): boolean {
+  const lowerValue = value.toLowerCase();
+  return lowerValue === 'true' || lowerValue === '1';
+}
+
+// Strips the quotes from a single quoted CSS string; anything else (e.g. a font stack) is kept as is.
+function unquoteCSSString(value: string): string {
+  const match = value.match(/^(["'])((?:\\.|(?!\1)[^\\])*)\1$/);
+  return match ? match[2].replace(/\\(.)/g, '$1') : value;
+}
+
+// Unquotes each family of a font stack, the reverse of quoteFontFamily: "Inter", sans-serif becomes Inter, sans-serif.
+function unquoteFontFamily(value: string): string {
+  // Families are separated by the commas outside quotes
+  const families = value.match(/(?:(["'])(?:\\.|(?!\1)[^\\])*\1|[^,"'])+/g) || [];
+  return families
+    .map(family => unquoteCSSString(family.trim()))
+    .filter(family => family !== '')
+    .join(', ');
+}
+
+function parseColorValue(value: string, report?: ImportReporter): RGB | RGBA {
+  // Handle every CSS Color 4 syntax: hex, named colours, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch(), color()
+  const color = parseCSSColor(value);
+  if (color) {
+    return color;
+  }
+  
+  // Default fallback
+  report?.('warning', `Unrecognised colour "${value}"; imported as black`);
+  return { r: 0, g: 0, b: 0 };
+}
+
+function hexToRgb(hex: string): RGB | RGBA {
+  // Remove # if present
+  hex = hex.replace('#', '');
+  
+  // Handle shorthand hex, with or without alpha
+  if (hex.length === 3 || hex.length === 4) {
+    hex = hex.split('').map(digit => digit + digit).join('');
+  }
+  
+  // Handle hex with alpha
+  if (hex.length === 8) {
+    const r = parseInt(hex.slice(0, 2), 16) / 255;
+    const g = parseInt(hex.slice(2, 4), 16) / 255;
+    const b = parseInt(hex.slice(4, 6), 16) / 255;
+    const a = parseInt(hex.slice(6, 8), 16) / 255;
+    return { r, g, b, a };
+  }
+  
+  // Handle standard hex
+  const r = parseInt(hex.slice(0, 2), 16) / 255;
+  const g = parseInt(hex.slice(2, 4), 16) / 255;
+  const b = parseInt(hex.slice(4, 6), 16) / 255;
+  return { r, g, b };
+}
+
+/**
+ * Parses a number, converting its unit back to what Figma stores: rem becomes px using
+ * the rem base, and a percentage becomes 0–1 for opacity variables. Other units are dropped.
+ */
+function parseFloatValue(value: string, report?: ImportReporter, remBase: number = DEFAULT_REM_BASE, percentAsFraction: boolean = false): number {
+  // Split the number from its unit
+  const match = value.trim().match(/^(-?\d*\.?\d+)([a-z%]*)$/i);
+  if (match) {
+    const number = parseFloat(match[1]);
+    const unit = match[2].toLowerCase();
+    if (unit === 'rem') return number * remBase;
+    if (unit === '%' && percentAsFraction) return number / 100;
+    if (unit !== '' && unit !== 'px' && unit !== '%') {
+      report?.('info', `Figma has no "${unit}" unit; imported ${value} as ${number}`);
+    }
+    return number;
+  }
+  report?.('warning', `"${value}" is not a number; imported as 0`);
+  return 0;
+}
+
+// =============================================
+// COLOUR PARSING (CSS COLOR 4)
+// =============================================
+
+type Vector3 = [number, number, number];
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+// CSS named colours, as #rrggbb without the "#"
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4',
+  azure: 'f0ffff', beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd',
+  blue: '0000ff', blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0',
+  chartreuse: '7fff00', chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed',
+  cornsilk: 'fff8dc', crimson: 'dc143c', cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b',
+  darkgoldenrod: 'b8860b', darkgray: 'a9a9a9', darkgreen: '006400', darkgrey: 'a9a9a9',
+  darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f', darkorange: 'ff8c00',
+  darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f',
+  darkturquoise: '00ced1', darkviolet: '9400d3', deeppink: 'ff1493', deepskyblue: '00bfff',
+  dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff', firebrick: 'b22222',
+  floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4',
+  indianred: 'cd5c5c', indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6',
+  lightcoral: 'f08080', lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3',
+  lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1', lightsalmon: 'ffa07a',
+  lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899',
+  lightslategrey: '778899', lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00',
+  limegreen: '32cd32', linen: 'faf0e6', magenta: 'ff00ff', maroon: '800000',
+  mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3', mediumpurple: '9370db',
+  mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a',
+  mediumturquoise: '48d1cc', mediumvioletred: 'c71585', midnightblue: '191970',
+  mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5', navajowhite: 'ffdead',
+  navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23', orange: 'ffa500',
+  orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9',
+  peru: 'cd853f', pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080',
+  rebeccapurple: '663399', red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1',
+  saddlebrown: '8b4513', salmon: 'fa8072', sandybrown: 'f4a460', seagreen: '2e8b57',
+  seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0', skyblue: '87ceeb', slateblue: '6a5acd',
+  slategray: '708090', slategrey: '708090', snow: 'fffafa', springgreen: '00ff7f',
+  steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8', tomato: 'ff6347',
+  turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff', whitesmoke: 'f5f5f5',
+  yellow: 'ffff00', yellowgreen: '9acd32'
+};
+
+// Conversion matrices from the CSS Color 4 sample code. XYZ is D65 unless noted.
+const LINEAR_SRGB_TO_XYZ: Matrix3 = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+const XYZ_TO_LINEAR_P3: Matrix3 = [
+  [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+  [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+  [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+];
+const LINEAR_A98_TO_XYZ: Matrix3 = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+// ProPhoto RGB is relative to D50
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix3 = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602],
+];
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+// Bradford chromatic adaptation
+const XYZ_D50_TO_D65: Matrix3 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+const XYZ_TO_OKLAB_LMS: Matrix3 = [
+  [0.8190224379967030, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+const OKLAB_LMS_TO_OKLAB: Matrix3 = [
+  [0.2104542683093140, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.4285922420485799, 0.4505937096174110],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+const OKLAB_TO_OKLAB_LMS: Matrix3 = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+const OKLAB_LMS_TO_XYZ: Matrix3 = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.1122868032803170, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+const D50_WHITE: Vector3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+function multiplyMatrix(matrix: Matrix3, vector: Vector3): Vector3 {
+  return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]) as Vector3;
+}
+
+// Transfer functions: gamma-encoded channel → linear light. They keep the sign of out-of-range values.
+function srgbToLinear(channel: number): number {
+  const abs = Math.abs(channel);
+  return abs <= 0.04045 ? channel / 12.92 : Math.sign(channel) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(channel: number): number {
+  const abs = Math.abs(channel);
+  return abs > 0.0031308 ? Math.sign(channel) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055) : 12.92 * channel;
+}
+
+function a98ToLinear(channel: number): number {
+  return Math.sign(channel) * Math.pow(Math.abs(channel), 563 / 256);
+}
+
+function prophotoToLinear(channel: number): number {
+  const abs = Math.abs(channel);
+  return abs <= 16 / 512 ? channel / 16 : Math.sign(channel) * Math.pow(abs, 1.8);
+}
+
+function rec2020ToLinear(channel: number): number {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(channel);
+  return abs < beta * 4.5 ? channel / 4.5 : Math.sign(channel) * Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+}
+
+function labToXYZ(lab: Vector3): Vector3 {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const [l, a, b] = lab;
+  const f1 = (l + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+  const xyzD50: Vector3 = [
+    (Math.pow(f0, 3) > epsilon ? Math.pow(f0, 3) : (116 * f0 - 16) / kappa) * D50_WHITE[0],
+    (l > kappa * epsilon ? Math.pow(f1, 3) : l / kappa) * D50_WHITE[1],
+    (Math.pow(f2, 3) > epsilon ? Math.pow(f2, 3) : (116 * f2 - 16) / kappa) * D50_WHITE[2],
+  ];
+  return multiplyMatrix(XYZ_D50_TO_D65, xyzD50);
+}
+
+function oklabToXYZ(oklab: Vector3): Vector3 {
+  const lms = multiplyMatrix(OKLAB_TO_OKLAB_LMS, oklab).map(value => Math.pow(value, 3)) as Vector3;
+  return multiplyMatrix(OKLAB_LMS_TO_XYZ, lms);
+}
+
+function xyzToOklab(xyz: Vector3): Vector3 {
+  const lms = multiplyMatrix(XYZ_TO_OKLAB_LMS, xyz).map(value => Math.cbrt(value)) as Vector3;
+  return multiplyMatrix(OKLAB_LMS_TO_OKLAB, lms);
+}
+
+// Polar (lightness, chroma, hue in degrees) → rectangular (lightness, a, b)
+function polarToRectangular([lightness, chroma, hue]: Vector3): Vector3 {
+  const radians = (hue * Math.PI) / 180;
+  return [lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)];
+}
+
+function rectangularToPolar([lightness, a, b]: Vector3): Vector3 {
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return [lightness, Math.sqrt(a * a + b * b), hue < 0 ? hue + 360 : hue];
+}
+
+function hslToSrgb(hue: number, saturation: number, lightness: number): Vector3 {
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const amount = saturation * Math.min(lightness, 1 - lightness);
+    return lightness - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+// sRGB channels in 0–1 → [hue in degrees, saturation 0–1, lightness 0–1]
+function srgbToHsl(r: number, g: number, b: number): Vector3 {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return [0, 0, lightness];
+  
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  hue *= 60;
+  return [hue < 0 ? hue + 360 : hue, saturation, lightness];
+}
+
+function hwbToSrgb(hue: number, whiteness: number, blackness: number): Vector3 {
+  if (whiteness + blackness >= 1) {
+    const gray = whiteness / (whiteness + blackness);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb(hue, 1, 0.5).map(channel => channel * (1 - whiteness - blackness) + whiteness) as Vector3;
+}
+
+/**
+ * Maps an XYZ colour into the sRGB gamut with the CSS Color 4 algorithm: reduce OKLCH chroma
+ * until the clipped colour is within a just-noticeable difference of the unclipped one.
+ * Returns gamma-encoded sRGB channels in 0–1.
+ */
+function gamutMapToSrgb(xyz: Vector3): Vector3 {
+  const toSrgb = (oklch: Vector3) =>
+    multiplyMatrix(XYZ_TO_LINEAR_SRGB, oklabToXYZ(polarToRectangular(oklch))).map(linearToSrgb) as Vector3;
+  const clip = (rgb: Vector3) => rgb.map(channel => Math.min(1, Math.max(0, channel))) as Vector3;
+  const inGamut = (rgb: Vector3) => rgb.every(channel => channel >= -0.0001 && channel <= 1.0001);
+  const srgbToOklab = (rgb: Vector3) => xyzToOklab(multiplyMatrix(LINEAR_SRGB_TO_XYZ, rgb.map(srgbToLinear) as Vector3));
+  const deltaEOK = (first: Vector3, second: Vector3) =>
+    Math.sqrt(first.reduce((sum, value, index) => sum + Math.pow(value - second[index], 2), 0));
+
+  const direct = multiplyMatrix(XYZ_TO_LINEAR_SRGB, xyz).map(linearToSrgb) as Vector3;
+  if (inGamut(direct)) return clip(direct);
+
+  const oklch = rectangularToPolar(xyzToOklab(xyz));
+  if (oklch[0] >= 1) return [1, 1, 1];
+  if (oklch[0] <= 0) return [0, 0, 0];
+
+  const jnd = 0.02;
+  const epsilon = 0.0001;
+  let min = 0;
+  let max = oklch[1];
+  let minInGamut = true;
+  let current: Vector3 = [oklch[0], oklch[1], oklch[2]];
+  let clipped = clip(toSrgb(current));
+  if (deltaEOK(srgbToOklab(clipped), polarToRectangular(current)) < jnd) return clipped;
+
+  while (max - min > epsilon) {
+    const chroma = (min + max) / 2;
+    current = [oklch[0], chroma, oklch[2]];
+    const candidate = toSrgb(current);
+    if (minInGamut && inGamut(candidate)) {
+      min = chroma;
+      continue;
+    }
+    clipped = clip(candidate);
+    const difference = deltaEOK(srgbToOklab(clipped), polarToRectangular(current));
+    if (difference < jnd) {
+      if (jnd - difference < epsilon) return clipped;
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+  return clipped;
+}
+
+/**
+ * Reads one colour function argument. Percentages are scaled by percentReference,
+ * angles (deg, rad, grad, turn) are returned in degrees and "none" is 0.
+ */
+function parseColorComponent(token: string, percentReference: number): number | null {
+  if (token === 'none') return 0;
+  const match = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  switch ((match[2] || '').toLowerCase()) {
+    case '%':
+      return (value / 100) * percentReference;
+    case 'rad':
+      return (value * 180) / Math.PI;
+    case 'grad':
+      return value * 0.9;
+    case 'turn':
+      return value * 360;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parses any CSS Color 4 colour (hex, named, rgb, hsl, hwb, lab, lch, oklab, oklch, color())
+ * into sRGB. Wide-gamut colours are gamut mapped. Returns null when the value is not a colour.
+ */
+function parseCSSColor(input: string): RGBA | null {
+  const value = input.trim().toLowerCase();
+
+  if (value === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  // Own keys only, so that "constructor" or "__proto__" are not taken for colours
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, value)) {
+    return Object.assign({ a: 1 }, hexToRgb(NAMED_COLORS[value]));
+  }
+  if (/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(value)) {
+    return Object.assign({ a: 1 }, hexToRgb(value));
+  }
+
+  const functionMatch = value.match(/^([a-z-]+)\(\s*([\s\S]*)\)$/);
+  if (!functionMatch) return null;
+  const name = functionMatch[1];
+  let body = functionMatch[2];
+
+  // color() starts with the colour space
+  let colorSpace = '';
+  if (name === 'color') {
+    const spaceMatch = body.match(/^([a-z0-9-]+)\s+([\s\S]*)$/);
+    if (!spaceMatch) return null;
+    colorSpace = spaceMatch[1];
+    body = spaceMatch[2];
+  }
+
+  // Modern syntax separates alpha with "/"; legacy syntax uses a fourth comma-separated value
+  const [channelPart, alphaPart] = body.split('/');
+  const tokens = channelPart.split(/[\s,]+/).filter(token => token !== '');
+  let alphaToken = alphaPart ? alphaPart.trim() : undefined;
+  if (!alphaToken && tokens.length === 4) {
+    alphaToken = tokens.pop();
+  }
+  if (tokens.length !== 3) return null;
+
+  const alpha = alphaToken === undefined ? 1 : parseColorComponent(alphaToken, 1);
+  if (alpha === null) return null;
+  const withAlpha = (rgb: Vector3): RGBA => {
+    const [r, g, b] = rgb.map(channel => Math.min(1, Math.max(0, channel)));
+    return { r, g, b, a: Math.min(1, Math.max(0, alpha)) };
+  };
+  const components = (references: Vector3): Vector3 | null => {
+    const parsed = tokens.map((token, index) => parseColorComponent(token, references[index]));
+    return parsed.some(component => component === null) ? null : (parsed as Vector3);
+  };
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      const rgb = components([255, 255, 255]);
+      return rgb ? withAlpha(rgb.map(channel => channel / 255) as Vector3) : null;
+    }
+    case 'hsl':
+    case 'hsla': {
+      const hsl = components([360, 100, 100]);
+      return hsl ? withAlpha(hslToSrgb(((hsl[0] % 360) + 360) % 360, hsl[1] / 100, hsl[2] / 100)) : null;
+    }
+    case 'hwb': {
+      const hwb = components([360, 100, 100]);
+      return hwb ? withAlpha(hwbToSrgb(((hwb[0] % 360) + 360) % 360, hwb[1] / 100, hwb[2] / 100)) : null;
+    }
+    case 'lab': {
+      const lab = components([100, 125, 125]);
+      return lab ? withAlpha(gamutMapToSrgb(labToXYZ(lab))) : null;
+    }
+    case 'lch': {
+      const lch = components([100, 150, 360]);
+      return lch ? withAlpha(gamutMapToSrgb(labToXYZ(polarToRectangular(lch)))) : null;
+    }
+    case 'oklab': {
+      const oklab = components([1, 0.4, 0.4]);
+      return oklab ? withAlpha(gamutMapToSrgb(oklabToXYZ(oklab))) : null;
+    }
+    case 'oklch': {
+      const oklch = components([1, 0.4, 360]);
+      return oklch ? withAlpha(gamutMapToSrgb(oklabToXYZ(polarToRectangular(oklch)))) : null;
+    }
+    case 'color': {
+      const channels = components([1, 1, 1]);
+      if (!channels) return null;
+      switch (colorSpace) {
+        case 'srgb':
+          return withAlpha(gamutMapToSrgb(multiplyMatrix(LINEAR_SRGB_TO_XYZ, channels.map(srgbToLinear) as Vector3)));
+        case 'srgb-linear':
+          return withAlpha(gamutMapToSrgb(multiplyMatrix(LINEAR_SRGB_TO_XYZ, channels)));
+        case 'display-p3':
+          return withAlpha(gamutMapToSrgb(multiplyMatrix(LINEAR_P3_TO_XYZ, channels.map(srgbToLinear) as Vector3)));
+        case 'a98-rgb':
+          return withAlpha(gamutMapToSrgb(multiplyMatrix(LINEAR_A98_TO_XYZ, channels.map(a98ToLinear) as Vector3)));
+        case 'prophoto-rgb':
+          return withAlpha(gamutMapToSrgb(multiplyMatrix(XYZ_D50_TO_D65, multiplyMatrix(LINEAR_PROPHOTO_TO_XYZ_D50, channels.map(prophotoToLinear) as Vector3))));
+        case 'rec2020':
+          return withAlpha(gamutMapToSrgb(multiplyMatrix(LINEAR_REC2020_TO_XYZ, channels.map(rec2020ToLinear) as Vector3)));
+        case 'xyz':
+        case 'xyz-d65':
+          return withAlpha(gamutMapToSrgb(channels));
+        case 'xyz-d50':
+          return withAlpha(gamutMapToSrgb(multiplyMatrix(XYZ_D50_TO_D65, channels)));
+        default:
+          return null;
+      }
+    }
+    default:
+      return null;
+  }
+}
+
+// =============================================
+// DESIGN TOKENS (JSON) IMPORT
+// =============================================
+
+interface TokenTheme {
+  name: string;
+  group?: string;
+  selectedTokenSets?: Record<string, string>;
+}
+
+interface FlatToken {
+  // Figma variable name, with groups joined by "/"
+  name: string;
+  value: unknown;
+  type?: string;
+}
+
+// Maps DTCG and Tokens Studio types to Figma variable types. Composite types (typography,
+// shadow, border, gradient...) have no variable equivalent and are skipped.
+const TOKEN_TYPE_MAP: Record<string, VariableResolvedDataType> = {
+  color: 'COLOR',
+  dimension: 'FLOAT',
+  number: 'FLOAT',
+  fontWeight: 'FLOAT',
+  fontWeights: 'FLOAT',
+  duration: 'FLOAT',
+  spacing: 'FLOAT',
+  sizing: 'FLOAT',
+  borderRadius: 'FLOAT',
+  borderWidth: 'FLOAT',
+  opacity: 'FLOAT',
+  fontSizes: 'FLOAT',
+  lineHeights: 'FLOAT',
+  letterSpacing: 'FLOAT',
+  paragraphSpacing: 'FLOAT',
+  paragraphIndent: 'FLOAT',
+  boolean: 'BOOLEAN',
+  string: 'STRING',
+  fontFamily: 'STRING',
+  fontFamilies: 'STRING',
+  textCase: 'STRING',
+  textDecoration: 'STRING',
+  text: 'STRING',
+  other: 'STRING',
+};
+
+const FONT_WEIGHT_NAMES: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  regular: 400,
+  normal: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900,
+};
+
+const TOKEN_ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// DTCG tokens carry "$value"; Tokens Studio's legacy format uses "value" next to "type".
+function isTokenNode(node: Record<string, unknown>): boolean {
+  return '$value' in node || ('value' in node && ('type' in node || !isPlainObject(node.value)));
+}
+
+/**
+ * Walks a token group and collects its tokens with their full "/" separated names.
+ * Group-level $type is inherited by nested tokens, as the DTCG spec describes.
+ */
+function flattenTokenGroup(group: Record<string, unknown>, path: string[], inheritedType: string | undefined, tokens: FlatToken[]) {
+  const groupType = typeof group.$type === 'string' ? group.$type : inheritedType;
+  for (const key of Object.keys(group)) {
+    const node = group[key];
+    if (key.startsWith('$') || !isPlainObject(node)) continue;
+
+    if (isTokenNode(node)) {
+      const type = node.$type ?? node.type ?? groupType;
+      tokens.push({
+        name: path.concat(key).join('/'),
+        value: '$value' in node ? node.$value : node.value,
+        type: typeof type === 'string' ? type : undefined,
+      });
+    } else {
+      flattenTokenGroup(node, path.concat(key), groupType, tokens);
+    }
+  }
+}
+
+/**
+ * Resolves the Figma type of a token from its $type, following aliases when the token has none.
+ * Returns null for token types that cannot become a variable, undefined when it cannot be told.
+ */
+function resolveTokenType(token: FlatToken, tokensByName: Map<string, FlatToken>, depth = 0): VariableResolvedDataType | null | undefined {
+  if (token.type) {
+    return TOKEN_TYPE_MAP[token.type] || null;
+  }
+  const aliasMatch = typeof token.value === 'string' ? token.value.match(TOKEN_ALIAS_PATTERN) : null;
+  if (aliasMatch && depth < 16) {
+    const target = tokensByName.get(aliasMatch[1].split('.').join('/'));
+    return target ? resolveTokenType(target, tokensByName, depth + 1) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Converts a token value to the CSS-like string understood by parseVariableValue.
+ * "{group.token}" references become var(--group/token) so they resolve against the created variables.
+ */
+function tokenValueToString(value: unknown, type: VariableResolvedDataType | undefined): string {
+  if (typeof value === 'string') {
+    const aliasMatch = value.match(TOKEN_ALIAS_PATTERN);
+    if (aliasMatch) {
+      return `var(--${aliasMatch[1].split('.').join('/')})`;
+    }
+    if (type === 'FLOAT' && FONT_WEIGHT_NAMES[value.toLowerCase().replace(/[\s-]/g, '')]) {
+      return String(FONT_WEIGHT_NAMES[value.toLowerCase().replace(/[\s-]/g, '')]);
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    // fontFamily tokens may list a font stack
+    return value.join(', ');
+  }
+  if (isPlainObject(value)) {
+    // DTCG color object: { colorSpace: "srgb", components: [r, g, b], alpha }
+    if (Array.isArray(value.components) && value.components.length >= 3) {
+      const [r, g, b] = value.components.map(Number);
+      const alpha = typeof value.alpha === 'number' ? value.alpha : 1;
+      return convertColorToCSS({ r, g, b, a: alpha });
+    }
+    // DTCG dimension object: { value: 16, unit: "px" }
+    if ('value' in value && 'unit' in value) {
+      return `${value.value}${value.unit}`;
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Splits a token set name into a collection and mode: "Color/Dark" → Color, Dark.
+ * Set names without a "/" become a collection with a single "Default" mode.
+ */
+function collectionAndModeFromSetName(setName: string): { collection: string; mode: string } {
+  const separator = setName.lastIndexOf('/');
+  if (separator === -1) {
+    return { collection: setName, mode: 'Default' };
+  }
+  return { collection: setName.slice(0, separator), mode: setName.slice(separator + 1) };
+}
+
+/**
+ * Parses a DTCG or Tokens Studio JSON file into collections and modes.
+ *    - Tokens Studio $themes: each theme group is a collection and each theme a mode, built from its enabled sets.
+ *    - Multi-set files: each "Collection/Mode" set (as written by the DTCG export) becomes that collection and mode.
+ *    - Single-file DTCG: all tokens go into a "Tokens" collection with a "Default" mode.
+ */
+function parseTokensJSON(jsonText: string, issues: ImportIssue[] = []): CSSCollection[] {
+  const data: unknown = JSON.parse(jsonText);
+  if (!isPlainObject(data)) {
+    throw new Error('Tokens JSON must be an object');
+  }
+
+  const themes: TokenTheme[] = Array.isArray(data.$themes) ? data.$themes.filter(isPlainObject) as unknown as TokenTheme[] : [];
+  const setNames = Object.keys(data).filter(key => !key.startsWith('$') && isPlainObject(data[key]));
+  const isMultiSet = themes.length > 0 || '$metadata' in data || (setNames.length > 0 && setNames.every(name => name.includes('/')));
+
+  // Flatten every set once; sets keep their tokens keyed by variable name.
+  const tokensBySet = new Map<string, FlatToken[]>();
+  if (isMultiSet) {
+    for (const setName of setNames) {
+      const tokens: FlatToken[] = [];
+      flattenTokenGroup(data[setName] as Record<string, unknown>, [], undefined, tokens);
+      tokensBySet.set(setName, tokens);
+    }
+  } else {
+    const tokens: FlatToken[] = [];
+    flattenTokenGroup(data, [], undefined, tokens);
+    tokensBySet.set('Tokens', tokens);
+  }
+
+  // Alias targets are looked up across all sets to find their type.
+  const tokensByName = new Map<string, FlatToken>();
+  for (const tokens of tokensBySet.values()) {
+    for (const token of tokens) {
+      if (!tokensByName.has(token.name)) tokensByName.set(token.name, token);
+    }
+  }
+
+  // Decide which sets feed which collection and mode.
+  const targets: { collection: string; mode: string; sets: string[] }[] = [];
+  const setsUsedByThemes = new Set<string>();
+  for (const theme of themes) {
+    const enabledSets = Object.keys(theme.selectedTokenSets || {})
+      .filter(setName => theme.selectedTokenSets?.[setName] === 'enabled' && tokensBySet.has(setName));
+    enabledSets.forEach(setName => setsUsedByThemes.add(setName));
+    targets.push({ collection: theme.group || 'Themes', mode: theme.name, sets: enabledSets });
+  }
+  for (const setName of tokensBySet.keys()) {
+    if (setsUsedByThemes.has(setName)) continue;
+    const { collection, mode } = isMultiSet ? collectionAndModeFromSetName(setName) : { collection: setName, mode: 'Default' };
+    targets.push({ collection, mode, sets: [setName] });
+  }
+
+  const collections: CSSCollection[] = [];
+  for (const target of targets) {
+    let collection = collections.find(c => c.name === target.collection);
+    if (!collection) {
+      collection = { name: target.collection, modes: new Map<string, CSSVariable[]>() };
+      collections.push(collection);
+    }
+
+    // Later sets override earlier ones, as they do in Tokens Studio.
+    const variablesByName = new Map<string, CSSVariable>();
+    for (const setName of target.sets) {
+      for (const token of tokensBySet.get(setName) || []) {
+        const type = resolveTokenType(token, tokensByName);
+        if (type === null) {
+          issues.push({ severity: 'warning', collection: target.collection, mode: target.mode, variable: token.name, message: `Skipped: "${token.type}" tokens have no variable equivalent` });
+          continue;
         }
+        variablesByName.set(token.name, { name: token.name, value: tokenValueToString(token.value, type), type });
       }
     }
+    collection.modes.set(target.mode, Array.from(variablesByName.values()));
+  }
+
+  return collections;
+}
+
+// =============================================
+// IMPORT PREVIEW
+// =============================================
+
+type ImportChangeKind =
+  | 'new-collection'
+  | 'new-mode'
+  | 'new-variable'
+  | 'changed-value'
+  | 'type-conflict'
+  | 'unresolved-reference'
+  // Mirror imports only
+  | 'renamed-variable'
+  | 'changed-type'
+  | 'deleted-variable'
+  | 'deleted-mode';
+
+interface ImportChange {
+  // Stable key the UI sends back for the changes it approves
+  id: string;
+  kind: ImportChangeKind;
+  collection: string;
+  mode?: string;
+  variable?: string;
+  before?: string;
+  after?: string;
+  // Deletions only: id of the document variable or mode to remove, as found when the change was planned
+  targetId?: string;
+}
+
+function importChangeId(kind: ImportChangeKind, collection: string, mode = '', variable = ''): string {
+  return [kind, collection, mode, variable].join('|');
+}
+
+// Formats a value already in the document the same way formatImportedValue formats the incoming one,
+// with alias targets named by the naming options the file was written with.
+function formatExistingValue(value: VariableValue | undefined, variablesById: Map<string, Variable>, naming: NamingOptions = {}): string {
+  if (value === undefined) return '';
+  if (isVariableAlias(value)) {
+    const target = variablesById.get(value.id);
+    return `var(--${target ? formatVariableName(target.name, naming) : 'unknown'})`;
+  }
+  if (isRGBorRGBA(value)) return convertColorToCSS(value);
+  return String(value);
+}
+
+function formatImportedValue(value: string, type: VariableResolvedDataType, remBase: number, scopes: VariableScope[]): string {
+  const reference = parseVarReference(value);
+  if (reference) return `var(--${reference.name})`;
+  switch (type) {
+    case 'COLOR':
+      return convertColorToCSS(parseColorValue(value));
+    case 'FLOAT':
+      return String(parseFloatValue(value, undefined, remBase, hasOnlyScopes(scopes, ['OPACITY'])));
+    case 'BOOLEAN':
+      return String(parseBooleanValue(value));
+    default:
+      return hasOnlyScopes(scopes, ['FONT_FAMILY']) ? unquoteFontFamily(value) : unquoteCSSString(value);
   }
+}
+
+/**
+ * Computes what createFigmaVariables would do, without touching the document:
+ * new collections, modes and variables, changed values per mode, type conflicts
+ * with existing variables and references that do not resolve to an imported variable. Values are
+ * listed for conflicting variables too, since approving a conflict recreates them with the new type.
+ * Mirror imports report renames and the type changes the file declares instead of conflicts,
+ * plus the variables and modes of the imported collections that the source no longer has.
+ */
+async function planImport(collections: CSSCollection[], options: ImportOptions = {}): Promise<ImportChange[]> {
+  const changes: ImportChange[] = [];
+  const declaredTypes = new Set<string>();
+  const variableTypes = determineImportTypes(collections, [], declaredTypes);
+  const figmaIndex = await getVariableIndex();
+  
+  const index = buildImportIndex(collections);
+  // The document variable an imported reference points to, if it already exists
+  const findReferencedVariable = (value: string, collectionName: string): Variable | undefined => {
+    const reference = parseVarReference(value);
+    const target = reference ? resolveImportReference(index, reference.name, collectionName) : undefined;
+    const targetCollection = target ? figmaIndex.collectionsByName.get(target.collection) : undefined;
+    return target && targetCollection ? findExistingVariable(figmaIndex, targetCollection.id, target.variable, options.mirror) : undefined;
+  };
   
-  // Third pass: Create collections and variables
   for (const collection of collections) {
-    // Get all collections asynchronously
-    const figmaCollections = await figma.variables.getLocalVariableCollectionsAsync();
-    let figmaCollection = figmaCollections.find(c => c.name === collection.name);
-    
-    // Create collection if it doesn't exist
+    const figmaCollection = figmaIndex.collectionsByName.get(collection.name);
     if (!figmaCollection) {
-      const firstModeName = Array.from(collection.modes.keys())[0] || "Default";
-      figmaCollection = figma.variables.createVariableCollection(collection.name);
-      
-      if (figmaCollection.modes.length > 0) {
-        const defaultMode = figmaCollection.modes[0];
-        figmaCollection.renameMode(defaultMode.modeId, firstModeName);
-      }
+      changes.push({ id: importChangeId('new-collection', collection.name), kind: 'new-collection', collection: collection.name });
     }
+    const reportedVariables = new Set<string>();
+    const matchedIds = new Set<string>();
     
-    // Process each mode in the collection
     for (const [modeName, variables] of collection.modes.entries()) {
-      // Check if mode exists, create if not
-      let modeId = figmaCollection.modes.find(m => m.name === modeName)?.modeId;
-      if (!modeId) {
-        if (modeName === figmaCollection.modes[0]?.name) {
-          modeId = figmaCollection.modes[0].modeId;
-        } else {
-          modeId = figmaCollection.addMode(modeName);
-        }
+      const figmaMode = figmaCollection ? findModeByName(figmaCollection, modeName) : undefined;
+      if (!figmaMode) {
+        changes.push({ id: importChangeId('new-mode', collection.name, modeName), kind: 'new-mode', collection: collection.name, mode: modeName });
       }
       
-      // Get all variables asynchronously
-      const figmaVariables = await figma.variables.getLocalVariablesAsync();
-      
-      // Create all variables
       for (const variable of variables) {
-        // Check if variable exists
-        let figmaVariable = figmaVariables
-          .find(v => v.name === variable.name && v.variableCollectionId === figmaCollection.id);
+        const varKey = `${collection.name}:${variable.name}`;
+        const existing = figmaCollection
+          ? findExistingVariable(figmaIndex, figmaCollection.id, variable, options.mirror)
+          : undefined;
+        const declared = declaredTypes.has(varKey);
+        const type = getImportType(variable, variableTypes.get(varKey) || determineVariableType(variable.value), existing, declared);
+        const scopes = existing ? existing.scopes : inferImportScopes(variable.name, type, variable.value) || [];
+        const after = formatImportedValue(variable.value, type, options.remBase ?? DEFAULT_REM_BASE, scopes);
         
-        // Create variable if it doesn't exist
-        if (!figmaVariable) {
-          const varKey = `${collection.name}:${variable.name}`;
-          const variableType = variableTypes.get(varKey) || determineVariableType(variable.value);
-          
-          figmaVariable = figma.variables.createVariable(
-            variable.name,
-            figmaCollection,
-            variableType
-          );
+        if (existing && !matchedIds.has(existing.id)) {
+          matchedIds.add(existing.id);
+          if (existing.name !== variable.name) {
+            changes.push({ id: importChangeId('renamed-variable', collection.name, '', variable.name), kind: 'renamed-variable', collection: collection.name, variable: variable.name, before: existing.name, after: variable.name });
+          }
         }
         
-        // Store the variable for later reference
-        variableMap.set(`--${variable.name}`, figmaVariable);
+        if (!existing) {
+          if (!reportedVariables.has(variable.name)) {
+            reportedVariables.add(variable.name);
+            changes.push({ id: importChangeId('new-variable', collection.name, '', variable.name), kind: 'new-variable', collection: collection.name, variable: variable.name, after: type });
+          }
+        } else if (existing.resolvedType !== type) {
+          if (!reportedVariables.has(variable.name)) {
+            reportedVariables.add(variable.name);
+            // Approving either kind recreates the variable with the new type (see recreateVariableWithType);
+            // a conflict starts deselected, and leaving it out leaves the variable and its values as they are
+            const kind = options.mirror && declared ? 'changed-type' : 'type-conflict';
+            changes.push({ id: importChangeId(kind, collection.name, '', variable.name), kind, collection: collection.name, variable: variable.name, before: existing.resolvedType, after: type });
+          }
+        }
+        
+        // Values are listed for a type change too, as the ones it overwrites
+        if (existing && figmaMode) {
+          const existingValue = existing.valuesByMode[figmaMode.modeId];
+          const before = formatExistingValue(existingValue, figmaIndex.variablesById, options.naming);
+          // Aliases are the same when they point to the same variable, whatever the names are written as
+          const sameAlias = isVariableAlias(existingValue) && findReferencedVariable(variable.value, collection.name)?.id === existingValue.id;
+          if (before !== after && !sameAlias) {
+            changes.push({ id: importChangeId('changed-value', collection.name, modeName, variable.name), kind: 'changed-value', collection: collection.name, mode: modeName, variable: variable.name, before, after });
+          }
+        }
+        
+        const reference = parseVarReference(variable.value);
+        if (reference && !index.has(reference.name)) {
+          changes.push({
+            id: importChangeId('unresolved-reference', collection.name, modeName, variable.name),
+            kind: 'unresolved-reference',
+            collection: collection.name,
+            mode: modeName,
+            variable: variable.name,
+            after: reference.fallback ? `fallback ${reference.fallback}` : 'default value',
+          });
+        }
+      }
+    }
+    
+    // Whatever the source no longer has in this collection
+    if (options.mirror && figmaCollection) {
+      for (const figmaVariable of figmaIndex.variables) {
+        if (figmaVariable.variableCollectionId !== figmaCollection.id || matchedIds.has(figmaVariable.id)) continue;
+        // Keyed by id, so that approving it never deletes another variable that has taken the name since
+        changes.push({ id: importChangeId('deleted-variable', collection.name, '', figmaVariable.id), kind: 'deleted-variable', collection: collection.name, variable: figmaVariable.name, before: figmaVariable.resolvedType, targetId: figmaVariable.id });
+      }
+      const modeNames = Array.from(collection.modes.keys());
+      for (const mode of figmaCollection.modes) {
+        if (modeNames.some(name => findModeByName(figmaCollection, name)?.modeId === mode.modeId)) continue;
+        changes.push({ id: importChangeId('deleted-mode', collection.name, mode.modeId), kind: 'deleted-mode', collection: collection.name, mode: mode.name, targetId: mode.modeId });
       }
     }
   }
   
-  // Fourth pass: Set values after all variables are created
+  return changes;
+}
+
+/**
+ * Drops the collections, modes and variables the user deselected (including renames and type
+ * changes), marks deselected value changes as skipValue and approved type conflicts as retype, so
+ * createFigmaVariables only applies the approved set. Deletions are left to deleteMirroredItems.
+ */
+function filterApprovedChanges(collections: CSSCollection[], changes: ImportChange[], approvedIds: string[]): CSSCollection[] {
+  const approved = new Set(approvedIds);
+  const rejected = new Set(changes.filter(change => !approved.has(change.id)).map(change => change.id));
+  const isRejected = (kind: ImportChangeKind, collection: string, mode?: string, variable?: string) =>
+    rejected.has(importChangeId(kind, collection, mode, variable));
+  
+  const filtered: CSSCollection[] = [];
   for (const collection of collections) {
-    const figmaCollection = await figma.variables.getLocalVariableCollectionsAsync()
-      .then(collections => collections.find(c => c.name === collection.name));
+    if (isRejected('new-collection', collection.name)) continue;
     
-    if (figmaCollection) {
-      for (const [modeName, variables] of collection.modes.entries()) {
-        const modeId = figmaCollection.modes.find(m => m.name === modeName)?.modeId;
-        
-        if (modeId) {
-          for (const variable of variables) {
-            const figmaVariable = variableMap.get(`--${variable.name}`);
-            
-            if (figmaVariable) {
-              try {
-                const value = await parseVariableValue(variable.value, figmaVariable.resolvedType, variableMap);
-                figmaVariable.setValueForMode(modeId, value);
-              } catch (error: unknown) {
-                // Properly handle the unknown error type
-                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                console.error(`Error setting value for variable ${variable.name}: ${errorMessage}`);
-              }
-            }
-          }
+    const modes = new Map<string, CSSVariable[]>();
+    collection.modes.forEach((variables, modeName) => {
+      if (isRejected('new-mode', collection.name, modeName)) return;
+      modes.set(modeName, variables
+        .filter(variable =>
+          !isRejected('new-variable', collection.name, '', variable.name) &&
+          !isRejected('type-conflict', collection.name, '', variable.name) &&
+          !isRejected('renamed-variable', collection.name, '', variable.name) &&
+          !isRejected('changed-type', collection.name, '', variable.name))
+        .map(variable => {
+          const skipValue =
+            isRejected('changed-value', collection.name, modeName, variable.name) ||
+            isRejected('unresolved-reference', collection.name, modeName, variable.name);
+          const retype = changes.some(change => change.id === importChangeId('type-conflict', collection.name, '', variable.name));
+          return skipValue || retype ? Object.assign({}, variable, { skipValue, retype }) : variable;
+        }));
+    });
+    filtered.push({ name: collection.name, modes });
+  }
+  return filtered;
+}
+
+/**
+ * Removes the variables and modes a mirror import found missing from the source. Only the
+ * deletions passed in are applied, by the id planned for them, so nothing is removed without the
+ * user approving it in the preview.
+ */
+async function deleteMirroredItems(deletions: ImportChange[], issues: ImportIssue[]) {
+  const figmaIndex = await getVariableIndex();
+  
+  for (const change of deletions) {
+    const figmaCollection = figmaIndex.collectionsByName.get(change.collection);
+    if (!figmaCollection) continue;
+    try {
+      if (change.kind === 'deleted-variable') {
+        const figmaVariable = figmaIndex.variablesById.get(change.targetId || '');
+        if (figmaVariable && figmaVariable.variableCollectionId === figmaCollection.id) {
+          figmaVariable.remove();
+          removeVariableFromIndex(figmaIndex, figmaVariable.id);
+        }
+      } else if (change.kind === 'deleted-mode') {
+        const mode = figmaCollection.modes.find(candidate => candidate.modeId === change.targetId);
+        if (mode && figmaCollection.modes.length === 1) {
+          issues.push({ severity: 'warning', collection: change.collection, mode: change.mode, message: 'Kept the mode: a collection needs at least one mode' });
+        } else if (mode) {
+          figmaCollection.removeMode(mode.modeId);
         }
       }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      issues.push({ severity: 'error', collection: change.collection, mode: change.mode, variable: change.variable, message: `Could not delete: ${errorMessage}` });
     }
   }
 }
 
-// Helper function to determine variable type from its name
-function determineTypeFromName(name: string): VariableResolvedDataType {
-  const lowerName = name.toLowerCase();
+// =============================================
+// USAGE AUDIT
+// =============================================
+
+// How much one local variable is used across the document.
+interface VariableUsage {
+  id: string;
+  name: string;
+  collection: string;
+  resolvedType: VariableResolvedDataType;
+  // Layers bound to the variable itself
+  directCount: number;
+  // Layers bound to variables that alias it, directly or through a chain
+  aliasCount: number;
+  // Layers bound to the variable itself, up to AUDIT_NODE_LIMIT, to jump to
+  nodeIds: string[];
+}
+
+// An alias whose target is not a local variable.
+interface BrokenAlias {
+  variable: string;
+  collection: string;
+  mode: string;
+  targetId: string;
+  // "remote" targets come from a library; "missing" ones no longer exist
+  reason: "missing" | "remote";
+  targetName?: string;
+}
+
+interface UsageAudit {
+  usages: VariableUsage[];
+  brokenAliases: BrokenAlias[];
+  scannedNodes: number;
+  scannedPages: number;
+  pageCount: number;
+  // Set when the scan was stopped; the counts only cover the layers scanned until then
+  cancelled: boolean;
+}
+
+const AUDIT_NODE_LIMIT = 100;
+
+/**
+ * Counts the layers bound to each local variable on every page, directly and through aliases,
+ * and lists the aliases that point to missing or library variables. Reports progress per page;
+ * a "cancel-operation" message stops the scan early and the audit covers what was scanned.
+ */
+async function auditVariableUsage(): Promise<UsageAudit> {
+  operationCancelRequested = false;
+  const index = await getVariableIndex();
+  const { variables, variablesById } = index;
+  const directCounts = new Map<string, number>();
+  const boundNodeIds = new Map<string, string[]>();
+  const pages = figma.root.children;
+  let scannedNodes = 0;
+  let scannedPages = 0;
+  let cancelled = false;
   
-  // Check for color-related names
-  if (lowerName.includes('color') || 
-      lowerName.includes('background') || 
-      lowerName.includes('bg-') ||
-      lowerName.includes('border') || 
-      lowerName.includes('fill') ||
-      lowerName.includes('stroke') ||
-      lowerName.includes('shadow')) {
-    return 'COLOR';
+  try {
+    for (const page of pages) {
+      await page.loadAsync();
+      const nodes = page.findAll();
+      const task = `Auditing "${page.name}" (page ${scannedPages + 1} of ${pages.length})`;
+      for (let index = 0; index < nodes.length; index++) {
+        if (index % PROGRESS_BATCH_SIZE === 0) {
+          await reportProgress(task, index, nodes.length);
+        }
+        const ids = new Set<string>();
+        collectNodeVariableIds(nodes[index], ids);
+        ids.forEach((id) => {
+          directCounts.set(id, (directCounts.get(id) || 0) + 1);
+          const nodeIds = boundNodeIds.get(id) || [];
+          if (nodeIds.length < AUDIT_NODE_LIMIT) nodeIds.push(nodes[index].id);
+          boundNodeIds.set(id, nodeIds);
+        });
+        scannedNodes++;
+      }
+      scannedPages++;
+      await reportProgress(task, nodes.length, nodes.length);
+    }
+  } catch (error) {
+    if (!(error instanceof CancelledError)) throw error;
+    // The counts cover the layers scanned until then
+    cancelled = true;
   }
   
-  // Check for number-related names
-  if (lowerName.includes('weight') || 
-      lowerName.includes('size') || 
-      lowerName.includes('scale') ||
-      lowerName.includes('spacing') ||
-      lowerName.includes('radius') ||
-      lowerName.includes('opacity') ||
-      lowerName.includes('width') ||
-      lowerName.includes('height') ||
-      lowerName.includes('padding') ||
-      lowerName.includes('margin')) {
-    return 'FLOAT';
-  }
+  // A layer bound to an alias also uses every variable down the alias chain
+  const aliasCounts = new Map<string, number>();
+  directCounts.forEach((count, id) => {
+    const reached = new Set<string>([id]);
+    const pending = [id];
+    while (pending.length > 0) {
+      const variable = variablesById.get(pending.pop() || "");
+      if (!variable) continue;
+      for (const modeId of Object.keys(variable.valuesByMode)) {
+        const value = variable.valuesByMode[modeId];
+        if (!isVariableAlias(value) || reached.has(value.id)) continue;
+        reached.add(value.id);
+        pending.push(value.id);
+        aliasCounts.set(value.id, (aliasCounts.get(value.id) || 0) + count);
+      }
+    }
+  });
   
-  // Default to STRING for other names
-  return 'STRING';
-}
-
-function determineVariableType(value: string): VariableResolvedDataType {
-  // Check if it's a reference to another variable
-  if (value.startsWith('var(--')) {
-    // For references, we need to determine the type based on the variable name or context
-    const referencedVarName = value.match(/var\(--([^)]+)\)/)?.[1]?.toLowerCase();
+  const usages: VariableUsage[] = [];
+  const brokenAliases: BrokenAlias[] = [];
+  for (const variable of variables) {
+    const collection = index.collectionsById.get(variable.variableCollectionId);
+    usages.push({
+      id: variable.id,
+      name: variable.name,
+      collection: collection ? collection.name : "",
+      resolvedType: variable.resolvedType,
+      directCount: directCounts.get(variable.id) || 0,
+      aliasCount: aliasCounts.get(variable.id) || 0,
+      nodeIds: boundNodeIds.get(variable.id) || [],
+    });
     
-    if (referencedVarName) {
-      // Try to infer type from variable name
-      if (referencedVarName.includes('color') || 
-          referencedVarName.includes('background') || 
-          referencedVarName.includes('border') ||
-          referencedVarName.includes('fill') ||
-          referencedVarName.includes('stroke')) {
-        return 'COLOR';
-      }
-      
-      if (referencedVarName.includes('weight') || 
-          referencedVarName.includes('size') || 
-          referencedVarName.includes('scale') ||
-          referencedVarName.includes('spacing') ||
-          referencedVarName.includes('radius') ||
-          referencedVarName.includes('opacity')) {
-        return 'FLOAT';
-      }
-      
-      if (referencedVarName.includes('font') || 
-          referencedVarName.includes('family') || 
-          referencedVarName.includes('text') ||
-          referencedVarName.includes('name')) {
-        return 'STRING';
-      }
-      
-      // Default to STRING for variable references if we can't determine
-      return 'STRING';
+    for (const modeId of Object.keys(variable.valuesByMode)) {
+      const value = variable.valuesByMode[modeId];
+      if (!isVariableAlias(value) || variablesById.has(value.id)) continue;
+      // Anything found that is not local comes from a library
+      const target = await getIndexedVariable(index, value.id);
+      const mode = collection?.modes.find((m) => m.modeId === modeId);
+      brokenAliases.push({
+        variable: variable.name,
+        collection: collection ? collection.name : "",
+        mode: mode ? mode.name : modeId,
+        targetId: value.id,
+        reason: target ? "remote" : "missing",
+        targetName: target?.name,
+      });
     }
   }
   
-  // Check if it's a color
-  if (value.startsWith('#') || 
-      value.startsWith('rgb') || 
-      value.startsWith('rgba') || 
-      value.startsWith('hsl') || 
-      value.startsWith('hsla')) {
-    return 'COLOR';
+  return { usages, brokenAliases, scannedNodes, scannedPages, pageCount: pages.length, cancelled };
+}
+
+// Selects a layer from the audit, switching to its page and scrolling it into view.
+async function selectNodeById(nodeId: string) {
+  const node = await figma.getNodeByIdAsync(nodeId);
+  if (!node || node.type === "DOCUMENT" || node.type === "PAGE") {
+    throw new Error("The layer no longer exists");
   }
-  
-  // Check if it's a number with units (for FLOAT)
-  if (/^-?\d+(\.\d+)?(px|rem|em|%|vw|vh|vmin|vmax)$/.test(value)) {
-    return 'FLOAT';
+  let page = node.parent;
+  while (page && page.type !== "PAGE") {
+    page = page.parent;
+  }
+  if (page) {
+    await figma.setCurrentPageAsync(page);
+  }
+  figma.currentPage.selection = [node];
+  figma.viewport.scrollAndZoomIntoView([node]);
+}
+
+// =============================================
+// SETTINGS AND PRESETS
+// =============================================
+
+// UI configuration as saved by the UI: control values, per-collection options and the cherry pick.
+// The plugin stores it as is; only the Code panel reads the export options from it.
+type PluginSettings = Record<string, unknown>;
+
+const SETTINGS_KEY = "settings";
+const PRESETS_KEY = "presets";
+
+function parseStoredJSON<T>(text: string | undefined, fallback: T): T {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    return fallback;
+  }
+}
+
+/**
+ * Settings saved with the document, or this user's own settings when the document has none
+ * (e.g. when they were saved without edit access).
+ */
+async function loadSettings(): Promise<PluginSettings | null> {
+  const documentSettings = parseStoredJSON<PluginSettings | null>(figma.root.getPluginData(SETTINGS_KEY), null);
+  if (documentSettings) return documentSettings;
+  return parseStoredJSON<PluginSettings | null>(await figma.clientStorage.getAsync(SETTINGS_KEY), null);
+}
+
+// Saves with the document so everyone editing it gets them, or for this user only when the document is read-only.
+async function saveSettings(settings: PluginSettings) {
+  const text = JSON.stringify(settings);
+  try {
+    figma.root.setPluginData(SETTINGS_KEY, text);
+  } catch (error) {
+    await figma.clientStorage.setAsync(SETTINGS_KEY, text);
+  }
+}
+
+// Named presets are kept in the document only, so that everyone editing it shares them.
+function loadPresets(): Record<string, PluginSettings> {
+  return parseStoredJSON<Record<string, PluginSettings>>(figma.root.getPluginData(PRESETS_KEY), {});
+}
+
+function savePresets(presets: Record<string, PluginSettings>) {
+  try {
+    figma.root.setPluginData(PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    throw new Error("Presets are saved with the file and need edit access");
+  }
+}
+
+// =============================================
+// SNAPSHOTS AND CHANGELOG
+// =============================================
+
+// A named capture of the local variables and collections, as scanned for export.
+interface Snapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  collections: ScannedCollection[];
+  variables: ScannedVariable[];
+}
+
+// A snapshot as listed in the UI, without its variables.
+interface SnapshotSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  variableCount: number;
+}
+
+type VariableChangeKind = "added" | "removed" | "renamed" | "value" | "alias";
+
+// One entry of the changelog between an older and a newer version of the variables.
+interface VariableChange {
+  kind: VariableChangeKind;
+  collection: string;
+  // Name in the newer version; removed variables keep their old name
+  name: string;
+  previousName?: string;
+  // Id in the newer version (in the older one for removed variables)
+  variableId: string;
+  // Mode of a value or alias change, with the value before and after (aliases as "→ target name")
+  mode?: string;
+  modeId?: string;
+  before?: string;
+  after?: string;
+}
+
+// The index lists the snapshots; each one is stored under its own key so the index stays cheap to read.
+const SNAPSHOT_INDEX_KEY = "snapshots";
+const SNAPSHOT_KEY_PREFIX = "snapshot:";
+// Snapshot id that stands for the file as it is now
+const LIVE_SNAPSHOT_ID = "live";
+
+function loadSnapshotIndex(): SnapshotSummary[] {
+  return parseStoredJSON<SnapshotSummary[]>(figma.root.getPluginData(SNAPSHOT_INDEX_KEY), []);
+}
+
+async function captureSnapshot(name: string): Promise<Snapshot> {
+  return {
+    id: String(Date.now()),
+    name,
+    createdAt: new Date().toISOString(),
+    collections: await getAvailableCollections(),
+    variables: await scanVariablesByMode(),
+  };
+}
+
+// Snapshots are saved with the document so that everyone editing it can compare against them.
+async function saveSnapshot(name: string): Promise<SnapshotSummary[]> {
+  const snapshot = await captureSnapshot(name);
+  const index = loadSnapshotIndex();
+  index.push({ id: snapshot.id, name, createdAt: snapshot.createdAt, variableCount: snapshot.variables.length });
+  try {
+    figma.root.setPluginData(SNAPSHOT_KEY_PREFIX + snapshot.id, JSON.stringify(snapshot));
+    figma.root.setPluginData(SNAPSHOT_INDEX_KEY, JSON.stringify(index));
+  } catch (error) {
+    throw new Error("Snapshots are saved with the file and need edit access");
+  }
+  return index;
+}
+
+function deleteSnapshot(id: string): SnapshotSummary[] {
+  const index = loadSnapshotIndex().filter((summary) => summary.id !== id);
+  figma.root.setPluginData(SNAPSHOT_KEY_PREFIX + id, "");
+  figma.root.setPluginData(SNAPSHOT_INDEX_KEY, JSON.stringify(index));
+  return index;
+}
+
+// A saved snapshot, or the file as it is now for LIVE_SNAPSHOT_ID.
+async function loadSnapshot(id: string): Promise<Snapshot> {
+  if (id === LIVE_SNAPSHOT_ID) return captureSnapshot("Current file");
+  const snapshot = parseStoredJSON<Snapshot | null>(figma.root.getPluginData(SNAPSHOT_KEY_PREFIX + id), null);
+  if (!snapshot) throw new Error("The snapshot no longer exists");
+  return snapshot;
+}
+
+// Value of a variable in a mode as shown in the changelog; aliases name their target in the same version.
+function describeSnapshotValue(variable: ScannedVariable, modeId: string, names: Map<string, string>): string | undefined {
+  const rawValue = variable.rawValues[modeId];
+  const displayValue = variable.modeValues[modeId];
+  if (isVariableAlias(rawValue)) {
+    return `→ ${names.get(rawValue.id) || (displayValue || "").slice(6).split(":::")[0]}`;
   }
+  return displayValue;
+}
+
+/**
+ * Lists what changed from the older to the newer version: added, removed and renamed variables,
+ * and per mode of the newer version, changed values and alias targets. Variables are matched by id,
+ * then by key (which survives a copy of the file). An alias counts as unchanged while it points to
+ * the same variable, even when that variable was renamed.
+ */
+function diffSnapshots(older: Snapshot, newer: Snapshot): VariableChange[] {
+  const changes: VariableChange[] = [];
+  const collectionName = (snapshot: Snapshot, collectionId: string) =>
+    snapshot.collections.find((collection) => collection.id === collectionId)?.name || collectionId;
+  const olderNames = new Map(older.variables.map((v) => [v.id, v.name] as [string, string]));
+  const newerNames = new Map(newer.variables.map((v) => [v.id, v.name] as [string, string]));
+  const matched = new Set<string>();
   
-  // Check if it's a plain number
-  if (/^-?\d+(\.\d+)?$/.test(value)) {
-    return 'FLOAT';
-  }
+  newer.variables.forEach((variable) => {
+    const collection = collectionName(newer, variable.collectionId);
+    const previous = older.variables.find((v) => v.id === variable.id) || older.variables.find((v) => v.key === variable.key);
+    if (!previous) {
+      changes.push({ kind: "added", collection, name: variable.name, variableId: variable.id });
+      return;
+    }
+    matched.add(previous.id);
+    if (previous.name !== variable.name) {
+      changes.push({ kind: "renamed", collection, name: variable.name, previousName: previous.name, variableId: variable.id });
+    }
+    const modes = newer.collections.find((c) => c.id === variable.collectionId)?.modes || [];
+    modes.forEach((mode) => {
+      const beforeRaw = previous.rawValues[mode.modeId];
+      const afterRaw = variable.rawValues[mode.modeId];
+      const before = describeSnapshotValue(previous, mode.modeId, olderNames);
+      const after = describeSnapshotValue(variable, mode.modeId, newerNames);
+      const isAlias = isVariableAlias(beforeRaw) || isVariableAlias(afterRaw);
+      const changed = isAlias
+        ? !(isVariableAlias(beforeRaw) && isVariableAlias(afterRaw) && beforeRaw.id === afterRaw.id)
+        : before !== after;
+      if (!changed) return;
+      changes.push({ kind: isAlias ? "alias" : "value", collection, name: variable.name, variableId: variable.id, mode: mode.name, modeId: mode.modeId, before, after });
+    });
+  });
   
-  // Default to STRING for anything else
-  return 'STRING';
+  older.variables.forEach((variable) => {
+    if (matched.has(variable.id)) return;
+    changes.push({ kind: "removed", collection: collectionName(older, variable.collectionId), name: variable.name, variableId: variable.id });
+  });
+  return changes;
 }
 
-async function parseVariableValue(
-  value: string, 
-  type: VariableResolvedDataType, 
-  variableMap: Map<string, Variable>
-): Promise<VariableValue> {
-  // Handle variable references
-  if (value.startsWith('var(--')) {
-    const referencedVarName = value.match(/var\(--([^)]+)\)/)?.[1];
-    if (referencedVarName) {
-      // Find the referenced variable from our map
-      const referencedVar = variableMap.get(`--${referencedVarName}`);
-      
-      if (referencedVar) {
-        // Return a variable alias regardless of type
-        // Figma will handle the type conversion if needed
-        return {
-          type: 'VARIABLE_ALIAS',
-          id: referencedVar.id
-        };
-      } else {
-        // If referenced variable doesn't exist yet, provide a default value based on type
-        switch (type) {
-          case 'COLOR':
-            return { r: 0, g: 0, b: 0 }; // Default black
-          case 'FLOAT':
-            return 0;
-          case 'BOOLEAN':
-            return false;
-          case 'STRING':
-          default:
-            return value;
-        }
-      }
+/**
+ * CSS patch of a changelog: the declarations of the newer version that changed, in the blocks of
+ * their collection and mode, so that it can be pasted over the previous release's CSS or imported.
+ * Added and renamed variables are declared in every mode. CSS cannot remove a declaration, so the names
+ * that are gone are listed in a comment. Values are written as they were captured.
+ */
+function formatChangelogCSS(older: Snapshot, newer: Snapshot, changes: VariableChange[], options: CSSExportOptions = {}): string {
+  // Every changed mode needs its declaration, even when it now matches the default mode
+  const patchOptions: CSSExportOptions = { ...options, overridesOnly: false };
+  const cssNames = new Map(newer.variables.map((v) => [v.id, getCSSVariableName(v, patchOptions)] as [string, string]));
+  const isChanged = (variable: ScannedVariable, modeId: string) => changes.some((change) =>
+    change.variableId === variable.id && (change.kind === "added" || change.kind === "renamed" || change.modeId === modeId));
+  
+  const goneNames: string[] = [];
+  changes.forEach((change) => {
+    if (change.kind === "removed") {
+      const variable = older.variables.find((v) => v.id === change.variableId);
+      if (variable) goneNames.push(getCSSVariableName(variable, patchOptions));
+    } else if (change.kind === "renamed") {
+      const variable = newer.variables.find((v) => v.id === change.variableId);
+      const previousName = variable ? getCSSVariableName({ ...variable, name: change.previousName || "" }, patchOptions) : "";
+      if (previousName && previousName !== cssNames.get(change.variableId)) goneNames.push(previousName);
     }
-  }
+  });
   
-  // Handle direct values based on type
-  switch (type) {
-    case 'COLOR':
-      return parseColorValue(value);
-    case 'FLOAT':
-      return parseFloatValue(value);
-    case 'BOOLEAN':
-      return value.toLowerCase() === 'true';
-    case 'STRING':
-    default:
-      return value;
+  const lines: string[] = [`/* Changes from "${older.name}" to "${newer.name}" */`];
+  if (goneNames.length > 0) {
+    lines.push(`/* No longer declared: ${goneNames.map((name) => `--${name}`).join(", ")} */`);
   }
+  lines.push("");
+  newer.collections.forEach((collection) => {
+    const variables = newer.variables.filter((v) => v.collectionId === collection.id);
+    if (!variables.some((v) => collection.modes.some((mode) => isChanged(v, mode.modeId)))) return;
+    lines.push(...generateCollectionCSS(collection, variables, cssNames, patchOptions, isChanged));
+  });
+  return lines.join("\n");
 }
 
-function parseColorValue(value: string): RGB | RGBA {
-  // Handle hex colors
-  if (value.startsWith('#')) {
-    return hexToRgb(value);
-  }
+// =============================================
+// DEV MODE CODEGEN
+// =============================================
+
+// CSS property for each layer field that can be bound to a variable. Gaps depend on the layout direction.
+const NODE_FIELD_PROPERTIES: [VariableBindableNodeField, string][] = [
+  ["width", "width"],
+  ["height", "height"],
+  ["minWidth", "min-width"],
+  ["maxWidth", "max-width"],
+  ["minHeight", "min-height"],
+  ["maxHeight", "max-height"],
+  ["paddingTop", "padding-top"],
+  ["paddingRight", "padding-right"],
+  ["paddingBottom", "padding-bottom"],
+  ["paddingLeft", "padding-left"],
+  ["topLeftRadius", "border-top-left-radius"],
+  ["topRightRadius", "border-top-right-radius"],
+  ["bottomRightRadius", "border-bottom-right-radius"],
+  ["bottomLeftRadius", "border-bottom-left-radius"],
+  ["strokeWeight", "border-width"],
+  ["strokeTopWeight", "border-top-width"],
+  ["strokeRightWeight", "border-right-width"],
+  ["strokeBottomWeight", "border-bottom-width"],
+  ["strokeLeftWeight", "border-left-width"],
+  ["opacity", "opacity"],
+];
+
+const TEXT_FIELD_PROPERTIES: [VariableBindableTextField, string][] = [
+  ["fontFamily", "font-family"],
+  ["fontSize", "font-size"],
+  ["fontWeight", "font-weight"],
+  ["lineHeight", "line-height"],
+  ["letterSpacing", "letter-spacing"],
+  ["paragraphIndent", "text-indent"],
+];
+
+// Longhands (top, right, bottom, left) written as their shorthand when all four use the same variable.
+const SIDE_SHORTHANDS: [string, string[]][] = [
+  ["padding", ["padding-top", "padding-right", "padding-bottom", "padding-left"]],
+  ["border-radius", ["border-top-left-radius", "border-top-right-radius", "border-bottom-right-radius", "border-bottom-left-radius"]],
+  ["border-width", ["border-top-width", "border-right-width", "border-bottom-width", "border-left-width"]],
+];
+
+// A CSS property of a layer and the id of the variable bound to it.
+type CSSBinding = [string, string];
+
+// Variable bound to the first visible solid paint, e.g. a fill for background-color.
+function getPaintVariableId(paints: ReadonlyArray<Paint> | PluginAPI["mixed"]): string | undefined {
+  if (!Array.isArray(paints)) return undefined;
+  const paint = (paints as Paint[]).find((p) => p.type === "SOLID" && p.visible !== false);
+  return paint && paint.type === "SOLID" ? paint.boundVariables?.color?.id : undefined;
+}
+
+/**
+ * CSS properties of one layer that are bound to variables: fills and strokes, sizes, padding, gaps,
+ * radii and border widths, opacity, and the typography of text. A text property is only used when the
+ * whole text is bound to one variable. Effects, layout grids and gradients are left out.
+ */
+function getNodeCSSBindings(node: SceneNode): CSSBinding[] {
+  const bindings: CSSBinding[] = [];
+  const bound = (node.boundVariables || {}) as Record<string, VariableAlias | VariableAlias[] | undefined>;
   
-  // Handle rgba colors
-  if (value.startsWith('rgba')) {
-    const match = value.match(/rgba\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([\d.]+)\s*\)/);
-    if (match) {
-      return {
-        r: parseInt(match[1]) / 255,
-        g: parseInt(match[2]) / 255,
-        b: parseInt(match[3]) / 255,
-        a: parseFloat(match[4])
-      };
-    }
+  const fillId = "fills" in node ? getPaintVariableId(node.fills) : undefined;
+  if (fillId) bindings.push([node.type === "TEXT" ? "color" : "background-color", fillId]);
+  const strokeId = "strokes" in node ? getPaintVariableId(node.strokes) : undefined;
+  if (strokeId) bindings.push(["border-color", strokeId]);
+  
+  NODE_FIELD_PROPERTIES.forEach(([field, property]) => {
+    const alias = bound[field];
+    if (isVariableAlias(alias)) bindings.push([property, alias.id]);
+  });
+  
+  // Spacing between items runs along the layout direction; the counter axis spacing applies across wrapped rows
+  const horizontal = "layoutMode" in node && node.layoutMode === "HORIZONTAL";
+  const itemSpacing = bound.itemSpacing;
+  const counterAxisSpacing = bound.counterAxisSpacing;
+  if (isVariableAlias(itemSpacing) && !isVariableAlias(counterAxisSpacing)) {
+    bindings.push(["gap", itemSpacing.id]);
+  } else {
+    if (isVariableAlias(itemSpacing)) bindings.push([horizontal ? "column-gap" : "row-gap", itemSpacing.id]);
+    if (isVariableAlias(counterAxisSpacing)) bindings.push([horizontal ? "row-gap" : "column-gap", counterAxisSpacing.id]);
   }
   
-  // Handle rgb colors
-  if (value.startsWith('rgb')) {
-    const match = value.match(/rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)/);
-    if (match) {
-      return {
-        r: parseInt(match[1]) / 255,
-        g: parseInt(match[2]) / 255,
-        b: parseInt(match[3]) / 255
-      };
-    }
+  if (node.type === "TEXT") {
+    TEXT_FIELD_PROPERTIES.forEach(([field, property]) => {
+      const aliases = bound[field];
+      const ids = Array.isArray(aliases) ? Array.from(new Set(aliases.map((alias) => alias.id))) : [];
+      if (ids.length === 1) bindings.push([property, ids[0]]);
+    });
   }
   
-  // Default fallback
-  return { r: 0, g: 0, b: 0 };
+  return collapseSideShorthands(bindings);
 }
 
-function hexToRgb(hex: string): RGB | RGBA {
-  // Remove # if present
-  hex = hex.replace('#', '');
-  
-  // Handle shorthand hex
-  if (hex.length === 3) {
-    hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+function collapseSideShorthands(bindings: CSSBinding[]): CSSBinding[] {
+  let result = bindings;
+  SIDE_SHORTHANDS.forEach(([shorthand, longhands]) => {
+    const ids = longhands.map((longhand) => result.find(([property]) => property === longhand)?.[1]);
+    if (!ids[0] || ids.some((id) => id !== ids[0])) return;
+    // The shorthand takes the place of the first longhand
+    const index = result.findIndex(([property]) => property === longhands[0]);
+    result = result.filter(([property]) => longhands.indexOf(property) === -1 && property !== shorthand);
+    result.splice(Math.min(index, result.length), 0, [shorthand, ids[0] as string]);
+  });
+  return result;
+}
+
+/**
+ * Export options as last saved from the "Convert all variables" tab, so that the Code panel names
+ * and formats tokens like the export does.
+ */
+function getSavedExportOptions(settings: PluginSettings | null): CSSExportOptions {
+  const controls = (settings?.controls || {}) as Record<string, string | boolean | undefined>;
+  const text = (id: string) => (typeof controls[id] === "string" ? (controls[id] as string) : "");
+  const units = text("all-units");
+  // Nothing is saved in a file the plugin has not been opened in; use the UI's default of 2 then
+  const precision = parseInt(text("all-color-precision"), 10);
+  return {
+    colorFormat: (text("all-color-format") || undefined) as ColorFormat | undefined,
+    precision: isNaN(precision) ? 2 : precision,
+    serializeValues: units !== "none",
+    lengthUnit: units === "rem" ? "rem" : "px",
+    remBase: parseFloat(text("all-rem-base")) || DEFAULT_REM_BASE,
+    collectionUnits: settings?.collectionUnits as Record<string, CollectionUnit> | undefined,
+    resolveAliases: text("all-aliases") === "resolve",
+    resolveModes: settings?.resolveModes as Record<string, string> | undefined,
+    collectionPrefixes: settings?.collectionPrefixes as Record<string, string> | undefined,
+    naming: {
+      preset: (text("all-naming") || undefined) as NamingPreset | undefined,
+      stripGroups: parseInt(text("all-strip-groups"), 10) || 0,
+      prefix: text("all-name-prefix").trim(),
+      suffix: text("all-name-suffix").trim(),
+    },
+    useCodeSyntax: controls["all-use-code-syntax"] === true,
+    overridesOnly: controls["all-overrides-only"] === true,
+    modeSettings: settings?.collectionModeSettings as Record<string, CollectionModeSettings> | undefined,
+  };
+}
+
+/**
+ * Code panel output for a layer: a rule with its variable-bound properties as var() references, and
+ * the declarations of those variables (with the alias targets they need) in every mode. Variables from
+ * libraries have no local value, so they are only listed.
+ */
+async function generateCodegenResults(node: SceneNode): Promise<CodegenResult[]> {
+  const options = getSavedExportOptions(await loadSettings());
+  const bindings = getNodeCSSBindings(node);
+  if (bindings.length === 0) {
+    return [{ title: "CSS variables", language: "CSS", code: "/* No variables are bound to this layer */" }];
   }
   
-  // Handle hex with alpha
-  if (hex.length === 8) {
-    const r = parseInt(hex.slice(0, 2), 16) / 255;
-    const g = parseInt(hex.slice(2, 4), 16) / 255;
-    const b = parseInt(hex.slice(4, 6), 16) / 255;
-    const a = parseInt(hex.slice(6, 8), 16) / 255;
-    return { r, g, b, a };
+  const ids = Array.from(new Set(bindings.map(([, id]) => id)));
+  const index = await refreshVariableIndex();
+  const cssNames = new Map<string, string>();
+  const localIds: string[] = [];
+  const libraryNames: string[] = [];
+  for (const id of ids) {
+    const variable = await getIndexedVariable(index, id);
+    if (!variable) continue;
+    const cssName = getCSSVariableName({ name: variable.name, collectionId: variable.variableCollectionId, codeSyntax: variable.codeSyntax }, options);
+    cssNames.set(id, cssName);
+    if (variable.remote) {
+      libraryNames.push(`--${cssName}`);
+    } else {
+      localIds.push(id);
+    }
   }
   
-  // Handle standard hex
-  const r = parseInt(hex.slice(0, 2), 16) / 255;
-  const g = parseInt(hex.slice(2, 4), 16) / 255;
-  const b = parseInt(hex.slice(4, 6), 16) / 255;
-  return { r, g, b };
+  const rule = [`.${formatVariableName(node.name) || "layer"} {`]
+    .concat(bindings.filter(([, id]) => cssNames.has(id)).map(([property, id]) => `  ${property}: var(--${cssNames.get(id)});`))
+    .concat("}")
+    .join("\n");
+  const tokens: string[] = [];
+  if (libraryNames.length > 0) tokens.push(`/* From libraries: ${libraryNames.join(", ")} */`);
+  if (localIds.length > 0) {
+    const collectionIds = (await getAvailableCollections()).map((collection) => collection.id);
+    tokens.push(await generateCSS(collectionIds, { ...options, variableIds: localIds }));
+  }
+  return [
+    { title: "CSS variables", language: "CSS", code: rule },
+    { title: "Tokens", language: "CSS", code: tokens.join("\n") },
+  ];
 }
 
-function parseFloatValue(value: string): number {
-  // Extract just the number part if there are units
-  const match = value.match(/^(-?\d+(\.\d+)?)/);
-  if (match) {
-    return parseFloat(match[1]);
+// =============================================
+// HEADLESS EXPORT
+// =============================================
+
+// A variable as the Figma REST API returns it from GET /v1/files/:file_key/variables/local.
+interface RESTVariable {
+  id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedType: VariableResolvedDataType;
+  valuesByMode: Record<string, VariableValue>;
+  remote: boolean;
+  description?: string;
+  hiddenFromPublishing?: boolean;
+  scopes?: VariableScope[];
+  codeSyntax?: { [platform in CodeSyntaxPlatform]?: string };
+  deletedButReferenced?: boolean;
+}
+
+interface RESTVariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  modes: { modeId: string; name: string }[];
+  defaultModeId: string;
+  remote: boolean;
+  hiddenFromPublishing?: boolean;
+  variableIds: string[];
+  deletedButReferenced?: boolean;
+}
+
+// The response, or just its "meta" object.
+type RESTLocalVariables =
+  | { meta: { variables: Record<string, RESTVariable>; variableCollections: Record<string, RESTVariableCollection> } }
+  | { variables: Record<string, RESTVariable>; variableCollections: Record<string, RESTVariableCollection> };
+
+// Formats the command line writes: the "CSS variables" and "Design Tokens (DTCG JSON)" exports.
+type HeadlessFormat = "css" | "dtcg";
+
+// The export options of the UI, plus what the command line picks with its arguments.
+interface HeadlessExportOptions extends CSSExportOptions {
+  format?: HeadlessFormat;
+  // Collections to export, by name (all local collections when absent)
+  collections?: string[];
+}
+
+/**
+ * Serves the variables of a REST API response to the index. Only the properties the export reads
+ * are filled in. Local variables are listed in the order of their collection's variableIds, like the
+ * Variables panel; library variables and deleted ones that are still referenced are found by id only.
+ */
+function createRESTVariableSource(response: RESTLocalVariables): VariableSource {
+  const meta = "meta" in response ? response.meta : response;
+  if (!meta || typeof meta.variables !== "object" || typeof meta.variableCollections !== "object") {
+    throw new Error("Expected the response of the REST API's local variables endpoint, with meta.variables and meta.variableCollections");
   }
-  return 0;
+  const variables = new Map<string, Variable>();
+  Object.keys(meta.variables).forEach((id) => {
+    const variable = meta.variables[id];
+    variables.set(variable.id, {
+      ...variable,
+      description: variable.description || "",
+      hiddenFromPublishing: variable.hiddenFromPublishing === true,
+      scopes: variable.scopes || ["ALL_SCOPES"],
+      codeSyntax: variable.codeSyntax || {},
+    } as unknown as Variable);
+  });
+  const collections = new Map<string, VariableCollection>();
+  Object.keys(meta.variableCollections).forEach((id) => {
+    const collection = meta.variableCollections[id];
+    collections.set(collection.id, { ...collection, hiddenFromPublishing: collection.hiddenFromPublishing === true } as unknown as VariableCollection);
+  });
+
+  const isLocal = (item: { remote: boolean; deletedButReferenced?: boolean }) => !item.remote && !item.deletedButReferenced;
+  const localCollections = Array.from(collections.values()).filter(isLocal);
+  const listed = localCollections.reduce((ids, collection) => ids.concat(collection.variableIds), [] as string[]);
+  const unlisted = Array.from(variables.keys()).filter((id) => listed.indexOf(id) === -1);
+  const localVariables = listed.concat(unlisted)
+    .map((id) => variables.get(id))
+    .filter((variable): variable is Variable => !!variable && isLocal(variable as unknown as RESTVariable));
+
+  return {
+    getLocalVariables: async () => localVariables,
+    getLocalCollections: async () => localCollections,
+    getVariableById: async (id) => variables.get(id) || null,
+    getCollectionById: async (id) => collections.get(id) || null,
+  };
+}
+
+// Per-collection options in an options file may be keyed by collection name; the export looks them up by id.
+function keyByCollectionId<T>(record: Record<string, T> | undefined, collections: ScannedCollection[]): Record<string, T> | undefined {
+  if (!record) return record;
+  const byId: Record<string, T> = {};
+  Object.keys(record).forEach((key) => {
+    const collection = collections.filter((candidate) => candidate.id === key || candidate.name === key)[0];
+    byId[collection ? collection.id : key] = record[key];
+  });
+  return byId;
+}
+
+/**
+ * Runs the export on a REST API response instead of the open document, for cli.js. Returns the
+ * text the plugin would show in its output, the aliases that could not be resolved, and the names
+ * that more than one collection is exported under.
+ */
+async function exportVariablesHeadless(response: RESTLocalVariables, options: HeadlessExportOptions = {}): Promise<{ output: string; warnings: string[]; nameCollisions: string[] }> {
+  variableSource = createRESTVariableSource(response);
+  variableIndex = null;
+  await refreshVariableIndex();
+
+  const collections = await getAvailableCollections();
+  const names = options.collections || collections.map((collection) => collection.name);
+  const collectionIds = names.map((name) => {
+    const collection = collections.filter((candidate) => candidate.name === name)[0];
+    if (!collection) {
+      throw new Error(`No local collection is named "${name}"`);
+    }
+    return collection.id;
+  });
+
+  const nameCollisions: string[] = [];
+  if (options.format === "dtcg") {
+    const tokenSets = await buildDTCGTokens(collectionIds, {}, [], nameCollisions);
+    return { output: JSON.stringify(tokenSets, null, 2) + "\n", warnings: [], nameCollisions };
+  }
+  const resolveErrors: string[] = [];
+  const css = await generateCSS(collectionIds, {
+    ...options,
+    collectionUnits: keyByCollectionId(options.collectionUnits, collections),
+    resolveModes: keyByCollectionId(options.resolveModes, collections),
+    collectionPrefixes: keyByCollectionId(options.collectionPrefixes, collections),
+    modeSettings: keyByCollectionId(options.modeSettings, collections),
+  }, resolveErrors, [], nameCollisions);
+  return { output: css.endsWith("\n") ? css : css + "\n", warnings: Array.from(new Set(resolveErrors)), nameCollisions };
+}
+
+/**
+ * Plans a CSS import against a REST API response instead of the open document: the changes the
+ * import preview would list, and the problems found reading the file.
+ */
+async function planImportHeadless(response: RESTLocalVariables, cssText: string, options: ImportOptions = {}): Promise<{ changes: ImportChange[]; issues: ImportIssue[] }> {
+  variableSource = createRESTVariableSource(response);
+  variableIndex = null;
+  await refreshVariableIndex();
+
+  const issues: ImportIssue[] = [];
+  const collections = parseCSSVariables(cssText, issues);
+  await applyImportNaming(collections, options.naming);
+  return { changes: await planImport(collections, options), issues };
 }
 
 // =============================================
 // MAIN PLUGIN INITIALIZATION
 // =============================================
 
-// Show the UI with appropriate dimensions for the combined plugin
-figma.showUI(__html__, { width: 768, height: 640 });
+// Status line for a finished import, e.g. "Variables created with 2 errors and 1 warning."
+function summarizeImportIssues(issues: ImportIssue[]): string {
+  const count = (severity: ImportIssueSeverity) => issues.filter(issue => issue.severity === severity).length;
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  const parts: string[] = [];
+  if (count('error') > 0) parts.push(plural(count('error'), 'error'));
+  if (count('warning') > 0) parts.push(plural(count('warning'), 'warning'));
+  return parts.length === 0 ? 'Variables created successfully!' : `Variables created with ${parts.join(' and ')}.`;
+}
 
-// Initialize the plugin
-(async () => {
-  // Load required fonts
-  await figma.loadFontAsync({ family: "Inter", style: "Regular" });
-  
-  // Initialize export functionality
-  const variablesByMode = await scanVariablesByMode();
+// Scan the document and send variables and collections to the UI, with the saved settings, presets and snapshots.
+async function postInitData() {
+  let variablesByMode: ScannedVariable[];
+  try {
+    variablesByMode = await scanVariablesByMode();
+  } catch (error) {
+    if (!(error instanceof CancelledError)) throw error;
+    // The UI keeps what it had; "Refresh data" scans again
+    figma.ui.postMessage({ type: "cancelled" });
+    return;
+  }
   const availableCollections = await getAvailableCollections();
-  
-  // Send the initial data (variables and collections) to the UI for export functionality
   figma.ui.postMessage({
     type: "init-data",
     variables: variablesByMode,
     collections: availableCollections,
+    settings: await loadSettings(),
+    presets: loadPresets(),
+    snapshots: loadSnapshotIndex(),
+  });
+}
+
+if (HEADLESS) {
+  module.exports = {
+    exportVariablesHeadless,
+    planImportHeadless,
+    // Parsers and planners that do not need the plugin API, for the tests
+    formatVariableName,
+    parseVariableName,
+    convertColorToCSS,
+    parseColorValue,
+    tokenizeCSS,
+    parseVarReference,
+    parseCSSVariables,
+    parseTokensJSON,
+    determineImportTypes,
+    filterApprovedChanges,
+    diffSnapshots,
+    wcagContrastRatio,
+    apcaContrast,
+  };
+} else if (figma.mode === "codegen") {
+  // The Code panel in Dev Mode runs the plugin without its UI
+  figma.codegen.on("generate", async (event) => {
+    try {
+      return await generateCodegenResults(event.node);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return [{ title: "CSS variables", language: "CSS", code: `/* Error generating CSS: ${message} */` }];
+    }
+  });
+} else {
+  // Show the UI with appropriate dimensions for the combined plugin
+  figma.showUI(__html__, { width: 768, height: 640 });
+  
+  // Initialize the plugin
+  (async () => {
+    // Load required fonts
+    await figma.loadFontAsync({ family: "Inter", style: "Regular" });
+    
+    // Send the initial data (variables and collections) to the UI for export functionality
+    await postInitData();
+  })();
+  
+  // Let the UI refresh a "From selection" export
+  figma.on("selectionchange", () => {
+    figma.ui.postMessage({ type: "selection-changed", count: figma.currentPage.selection.length });
   });
-})();
+}
 
 // Handle messages from the UI
-figma.ui.onmessage = async (msg) => {
+const handleUIMessage: MessageEventHandler = async (msg) => {
   // Handle export functionality messages
   if (msg.type === "create-css") {
-    const { selectedRoot, selectedTheme, useCodeSyntax } = msg;
-    let cssLines: string[] = [];
-    
-    // Build the :root block using variables from the selected root collection.
-    cssLines.push(":root {");
-    const rootVars = await scanVariablesByMode().then(vars => vars.filter(v => v.collectionId === selectedRoot));
-    const rootColl = await getAvailableCollections().then(colls => colls.find(c => c.id === selectedRoot));
-    let defaultModeId = "";
-    if (rootColl && rootColl.modes.length > 0) {
-      defaultModeId = rootColl.modes[0].modeId;
-    }
-    rootVars.forEach(variable => {
-      const cssName = variable.name.replace(/\s+/g, "-").toLowerCase();
-      
-      // New: use codeSyntax when requested.
-      let value = "";
-      if (useCodeSyntax && variable.codeSyntax) {
-        value = variable.codeSyntax;
-      } else {
-        value = defaultModeId ? variable.modeValues[defaultModeId] || "" : "";
-        if (value.startsWith("alias:")) {
-          let aliasName = value.slice(6);
-          aliasName = aliasName.replace(/\s+/g, "-").toLowerCase();
-          value = `var(--${aliasName})`;
-        }
+    try {
+      await refreshVariableIndex();
+      const resolveErrors: string[] = [];
+      const addedAliasTargets: string[] = [];
+      const nameCollisions: string[] = [];
+      const options: CSSExportOptions = msg.options || {};
+      let collectionIds: string[] = msg.collectionIds || [];
+      // "From selection": the variables bound to the selected layers, from whichever collections they are in
+      if (msg.fromSelection) {
+        options.variableIds = await getSelectionVariableIds();
+        collectionIds = (await getAvailableCollections()).map((collection) => collection.id);
       }
-      cssLines.push(`  --${cssName}: ${value};`);
-    });
-    cssLines.push("}");
-    cssLines.push("");
-    
-    // Build the data-theme blocks using variables from the selected theme collection.
-    const themeColl = await getAvailableCollections().then(colls => colls.find(c => c.id === selectedTheme));
-    if (themeColl && themeColl.modes.length > 0) {
-      const themeVars = await scanVariablesByMode().then(vars => vars.filter(v => v.collectionId === selectedTheme));
-      themeColl.modes.forEach(mode => {
-        const themeName = mode.name.replace(/\s+/g, "-").toLowerCase();
-        cssLines.push(`[data-theme="${themeName}"] {`);
-        themeVars.forEach(variable => {
-          const cssName = variable.name.replace(/\s+/g, "-").toLowerCase();
-          let value = "";
-          if (useCodeSyntax && variable.codeSyntax) {
-            value = variable.codeSyntax;
-          } else {
-            value = variable.modeValues[mode.modeId] || "";
-            if (value.startsWith("alias:")) {
-              let aliasName = value.slice(6);
-              aliasName = aliasName.replace(/\s+/g, "-").toLowerCase();
-              value = `var(--${aliasName})`;
-            }
-          }
-          cssLines.push(`  --${cssName}: ${value};`);
-        });
-        cssLines.push("}");
-        cssLines.push("");
+      const css = await generateCSS(collectionIds, options, resolveErrors, addedAliasTargets, nameCollisions);
+      // The same chain fails once per mode; report it once
+      figma.ui.postMessage({
+        type: "display-css",
+        css,
+        target: msg.target,
+        resolveErrors: Array.from(new Set(resolveErrors)),
+        addedAliasTargets,
+        nameCollisions,
+        selectionVariableCount: msg.fromSelection ? options.variableIds?.length : undefined,
+      });
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        figma.ui.postMessage({ type: "cancelled" });
+        return;
+      }
+      figma.ui.postMessage({
+        type: "error",
+        message:
+          "Error generating CSS: " +
+          (error instanceof Error ? error.message : "Unknown error"),
       });
     }
-    
-    const cssVariables = cssLines.join("\n");
-    figma.ui.postMessage({
-      type: "display-css",
-      css: cssVariables,
-    });
-  } 
+  }
+  else if (msg.type === "create-dtcg") {
+    try {
+      await refreshVariableIndex();
+      const addedAliasTargets: string[] = [];
+      const nameCollisions: string[] = [];
+      const selection: ExportSelection = msg.fromSelection ? { variableIds: await getSelectionVariableIds() } : msg.selection || {};
+      const tokenSets = await buildDTCGTokens(msg.fromSelection ? undefined : msg.collectionIds, selection, addedAliasTargets, nameCollisions);
+      figma.ui.postMessage({
+        type: "display-tokens",
+        json: JSON.stringify(tokenSets, null, 2),
+        target: msg.target,
+        addedAliasTargets,
+        nameCollisions,
+        selectionVariableCount: msg.fromSelection ? selection.variableIds?.length : undefined,
+      });
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        figma.ui.postMessage({ type: "cancelled" });
+        return;
+      }
+      figma.ui.postMessage({
+        type: "error",
+        message:
+          "Error exporting design tokens: " +
+          (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
+  else if (msg.type === "create-styles-css") {
+    try {
+      await refreshVariableIndex();
+      figma.ui.postMessage({ type: "display-css", css: await generateStylesCSS(msg.options || {}), target: msg.target });
+    } catch (error) {
+      figma.ui.postMessage({
+        type: "error",
+        message:
+          "Error exporting styles: " +
+          (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
   // Handle import functionality messages
-  else if (msg.type === 'parse-css') {
+  else if (msg.type === 'parse-css' || msg.type === 'parse-json') {
     try {
-      const collections = parseCSSVariables(msg.cssText);
-      await createFigmaVariables(collections);
+      await refreshVariableIndex();
+      const issues: ImportIssue[] = [];
+      const importOptions: ImportOptions = { remBase: msg.remBase, naming: msg.naming, mirror: msg.mirror };
+      let collections = msg.type === 'parse-json' ? parseTokensJSON(msg.jsonText, issues) : parseCSSVariables(msg.cssText, issues);
+      // Token names are already Figma names; CSS names are mapped back
+      if (msg.type === 'parse-css') {
+        await applyImportNaming(collections, importOptions.naming);
+      }
+      
+      // Dry run: report the planned changes and leave the document alone
+      if (msg.preview) {
+        const changes = await planImport(collections, importOptions);
+        figma.ui.postMessage({ type: 'import-preview', changes });
+        return;
+      }
+      let approved: ImportChange[] = [];
+      if (msg.approvedChanges) {
+        const changes = await planImport(collections, importOptions);
+        collections = filterApprovedChanges(collections, changes, msg.approvedChanges);
+        approved = changes.filter(change => msg.approvedChanges.indexOf(change.id) !== -1);
+      }
+      
+      // Variables go first so renames can take their names; modes last so a collection keeps at least one
+      await deleteMirroredItems(approved.filter(change => change.kind === 'deleted-variable'), issues);
+      await createFigmaVariables(collections, issues, importOptions);
+      await deleteMirroredItems(approved.filter(change => change.kind === 'deleted-mode'), issues);
       figma.ui.postMessage({ 
         type: 'status', 
-        message: 'Variables created successfully!', 
-        status: 'success' 
+        message: summarizeImportIssues(issues), 
+        status: issues.some(issue => issue.severity === 'error') ? 'error' : 'success',
+        report: issues
       });
       
       // Refresh the export view with the newly created variables
-      const variablesByMode = await scanVariablesByMode();
-      const availableCollections = await getAvailableCollections();
-      
-      figma.ui.postMessage({
-        type: "init-data",
-        variables: variablesByMode,
-        collections: availableCollections,
-      });
+      await refreshVariableIndex();
+      await postInitData();
     } catch (error: unknown) {
+      if (error instanceof CancelledError) {
+        // Variables are created and set in place, so the part already imported stays
+        await refreshVariableIndex();
+        figma.ui.postMessage({ type: 'status', message: 'Import cancelled. Variables imported before cancelling were kept.', status: 'error' });
+        await postInitData();
+        return;
+      }
       figma.ui.postMessage({ 
         type: 'status', 
         message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`, 
@@ -695,20 +4548,123 @@ figma.ui.onmessage = async (msg) => {
       });
     }
   }
+  // Handle the contrast report
+  else if (msg.type === "contrast-report") {
+    try {
+      await refreshVariableIndex();
+      figma.ui.postMessage({ type: "contrast-result", results: await buildContrastReport(msg.options || {}, undefined, msg.exportOptions || {}) });
+    } catch (error) {
+      figma.ui.postMessage({
+        type: "error",
+        message: "Error checking contrast: " + (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
+  // Handle usage audit messages
+  else if (msg.type === "audit-usage") {
+    try {
+      await refreshVariableIndex();
+      figma.ui.postMessage({ type: "audit-result", audit: await auditVariableUsage() });
+    } catch (error) {
+      figma.ui.postMessage({
+        type: "error",
+        message: "Error auditing variable usage: " + (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
+  else if (msg.type === "cancel-operation") {
+    operationCancelRequested = true;
+  }
+  else if (msg.type === "select-node") {
+    try {
+      await selectNodeById(msg.nodeId);
+    } catch (error) {
+      figma.ui.postMessage({
+        type: "error",
+        message: "Error selecting layer: " + (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
+  // Handle settings and preset messages
+  else if (msg.type === "save-settings") {
+    try {
+      await saveSettings(msg.settings || {});
+    } catch (error) {
+      figma.ui.postMessage({
+        type: "error",
+        message: "Error saving settings: " + (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
+  else if (msg.type === "save-preset" || msg.type === "delete-preset") {
+    try {
+      const presets = loadPresets();
+      if (msg.type === "save-preset") {
+        presets[msg.name] = msg.settings || {};
+      } else {
+        delete presets[msg.name];
+      }
+      savePresets(presets);
+      figma.ui.postMessage({ type: "presets", presets });
+    } catch (error) {
+      figma.ui.postMessage({
+        type: "error",
+        message: "Error saving presets: " + (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
+  // Handle snapshot messages
+  else if (msg.type === "save-snapshot" || msg.type === "delete-snapshot") {
+    try {
+      await refreshVariableIndex();
+      const snapshots = msg.type === "save-snapshot" ? await saveSnapshot(msg.name) : deleteSnapshot(msg.id);
+      figma.ui.postMessage({ type: "snapshots", snapshots });
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        figma.ui.postMessage({ type: "cancelled" });
+        return;
+      }
+      figma.ui.postMessage({
+        type: "error",
+        message: "Error saving snapshots: " + (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
+  else if (msg.type === "diff-snapshots") {
+    try {
+      await refreshVariableIndex();
+      const older = await loadSnapshot(msg.from);
+      const newer = await loadSnapshot(msg.to);
+      const changes = diffSnapshots(older, newer);
+      figma.ui.postMessage({
+        type: "snapshot-diff",
+        from: older.name,
+        to: newer.name,
+        changes,
+        css: formatChangelogCSS(older, newer, changes, msg.options || {}),
+      });
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        figma.ui.postMessage({ type: "cancelled" });
+        return;
+      }
+      figma.ui.postMessage({
+        type: "error",
+        message: "Error comparing snapshots: " + (error instanceof Error ? error.message : "Unknown error"),
+      });
+    }
+  }
   // Handle close plugin message
   else if (msg.type === "close-plugin") {
     figma.closePlugin();
   }
   else if (msg.type === 'reload-plugin') {
-    // Re-initialize the plugin
-    const variablesByMode = await scanVariablesByMode();
-    const availableCollections = await getAvailableCollections();
-    
-    // Send the refreshed data to the UI
-    figma.ui.postMessage({
-      type: "init-data",
-      variables: variablesByMode,
-      collections: availableCollections,
-    });
+    // Re-initialize the plugin and send the refreshed data to the UI; only changed variables are scanned again
+    await refreshVariableIndex();
+    await postInitData();
   }
-};
\ No newline at end of file
+};
+
+if (!HEADLESS) {
+  figma.ui.onmessage = handleUIMessage;
+}
@@ -0,0 +1,57 @@
+// Colours read from CSS on import, and written back by the export.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { parseColorValue, convertColorToCSS } = require("../code.js");
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+
+function assertColor(actual, expected) {
+  ["r", "g", "b", "a"].forEach((channel) => {
+    assert.ok(Math.abs((actual[channel] ?? 1) - expected[channel]) < 0.001, `${channel} of ${JSON.stringify(actual)}`);
+  });
+}
+
+test("hex, named and functional colours", () => {
+  assertColor(parseColorValue("#f00"), RED);
+  assertColor(parseColorValue("#FF0000"), RED);
+  assertColor(parseColorValue("#ff000080"), { r: 1, g: 0, b: 0, a: 128 / 255 });
+  assertColor(parseColorValue("red"), RED);
+  assertColor(parseColorValue("transparent"), { r: 0, g: 0, b: 0, a: 0 });
+  assertColor(parseColorValue("rgb(255 0 0 / 50%)"), { r: 1, g: 0, b: 0, a: 0.5 });
+  assertColor(parseColorValue("rgba(255, 0, 0, 0.25)"), { r: 1, g: 0, b: 0, a: 0.25 });
+  assertColor(parseColorValue("hsl(120 100% 50%)"), { r: 0, g: 1, b: 0, a: 1 });
+  assertColor(parseColorValue("oklch(62.8% 0.2577 29.23)"), RED);
+});
+
+test("unknown colours import as black with a warning", () => {
+  const warnings = [];
+  const report = (severity, message) => warnings.push(severity);
+  // Inherited object keys are not colour names
+  ["nope", "constructor", "toString"].forEach((value) => {
+    assertColor(parseColorValue(value, report), { r: 0, g: 0, b: 0, a: 1 });
+  });
+  assert.deepStrictEqual(warnings, ["warning", "warning", "warning"]);
+});
+
+test("opaque colours export as hex and translucent ones as rgba()", () => {
+  assert.strictEqual(convertColorToCSS(RED), "#ff0000");
+  assert.strictEqual(convertColorToCSS({ r: 1, g: 0, b: 0, a: 0.5 }), "rgba(255, 0, 0, 0.5)");
+  assert.strictEqual(convertColorToCSS({ r: 1, g: 0, b: 0, a: 0.5 }, { colorFormat: "hex" }), "#ff000080");
+});
+
+test("alpha keeps enough decimals for an 8-bit value at any precision", () => {
+  assert.strictEqual(convertColorToCSS({ r: 1, g: 0, b: 0, a: 0.125 }), "rgba(255, 0, 0, 0.125)");
+  assert.strictEqual(convertColorToCSS({ r: 1, g: 0, b: 0, a: 0.125 }, { colorFormat: "rgb", precision: 0 }), "rgb(255 0 0 / 0.125)");
+  for (let alpha = 0; alpha < 255; alpha++) {
+    const css = convertColorToCSS({ r: 1, g: 0, b: 0, a: alpha / 255 });
+    assert.strictEqual(Math.round(parseColorValue(css).a * 255), alpha, css);
+  }
+});
+
+test("exported colours read back as the same colour", () => {
+  const color = { r: 0.2, g: 0.4, b: 0.6, a: 0.8 };
+  ["hex-rgba", "hex", "rgb", "hsl", "oklch", "display-p3"].forEach((colorFormat) => {
+    assertColor(parseColorValue(convertColorToCSS(color, { colorFormat, precision: 4 })), color);
+  });
+});
@@ -0,0 +1,23 @@
+// WCAG 2 contrast ratios and APCA lightness contrast.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { wcagContrastRatio, apcaContrast } = require("../code.js");
+
+const BLACK = { r: 0, g: 0, b: 0 };
+const WHITE = { r: 1, g: 1, b: 1 };
+
+test("WCAG ratios are symmetric and range from 1 to 21", () => {
+  assert.strictEqual(wcagContrastRatio(BLACK, WHITE), 21);
+  assert.strictEqual(wcagContrastRatio(WHITE, BLACK), 21);
+  assert.strictEqual(wcagContrastRatio(WHITE, WHITE), 1);
+  // #777777 on white is just under AA (4.5)
+  const gray = { r: 0x77 / 255, g: 0x77 / 255, b: 0x77 / 255 };
+  assert.strictEqual(wcagContrastRatio(gray, WHITE).toFixed(2), "4.48");
+});
+
+test("APCA is positive for dark text on light and negative for light text on dark", () => {
+  assert.strictEqual(apcaContrast(BLACK, WHITE).toFixed(1), "106.0");
+  assert.strictEqual(apcaContrast(WHITE, BLACK).toFixed(1), "-107.9");
+  assert.strictEqual(apcaContrast(WHITE, WHITE), 0);
+});
@@ -0,0 +1,83 @@
+// Reading CSS custom properties into collections and modes for an import.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { tokenizeCSS, parseVarReference, parseCSSVariables } = require("../code.js");
+
+// Collections as plain objects: { collection: { mode: { name: value } } }
+function summarize(collections) {
+  const summary = {};
+  collections.forEach((collection) => {
+    summary[collection.name] = {};
+    collection.modes.forEach((variables, mode) => {
+      summary[collection.name][mode] = {};
+      variables.forEach((variable) => { summary[collection.name][mode][variable.name] = variable.value; });
+    });
+  });
+  return summary;
+}
+
+test("the tokenizer keeps strings and parentheses whole", () => {
+  assert.deepStrictEqual(tokenizeCSS(':root { --a: url("x;y"); /* note */ --b: var(--c, rgb(0 0 0)); }'), [
+    { type: "text", text: ":root " },
+    { type: "{" },
+    { type: "text", text: ' --a: url("x;y")' },
+    { type: ";" },
+    { type: "comment", text: "note" },
+    { type: "text", text: "  --b: var(--c, rgb(0 0 0))" },
+    { type: ";" },
+    { type: "}" },
+  ]);
+});
+
+test("var() references with and without fallbacks", () => {
+  assert.deepStrictEqual(parseVarReference("var(--color-primary)"), { name: "color-primary", fallback: undefined });
+  assert.deepStrictEqual(parseVarReference(" var( --a , var(--b, #fff) ) "), { name: "a", fallback: "var(--b, #fff)" });
+  // Token references keep their spaces
+  assert.deepStrictEqual(parseVarReference("var(--a/b c)"), { name: "a/b c", fallback: undefined });
+  assert.strictEqual(parseVarReference("calc(var(--a) * 2)"), null);
+  assert.strictEqual(parseVarReference("var(--)"), null);
+});
+
+test("declarations without hints go to the default collection and mode", () => {
+  assert.deepStrictEqual(summarize(parseCSSVariables(":root { --a: 1px }")), {
+    "Imported variables": { Default: { a: "1px" } },
+  });
+});
+
+test("modes come from selectors and media queries, and inherit from the first mode", () => {
+  const css = `/* Collection name: Theme */
+    :root { --bg: #fff; --fg: #000; }
+    @media (prefers-color-scheme: dark) { :root { --bg: #000; } }
+    .theme-contrast { --fg: #fff; }
+    [data-theme="dim"] { --bg: #333; }`;
+  assert.deepStrictEqual(summarize(parseCSSVariables(css)), {
+    Theme: {
+      Default: { bg: "#fff", fg: "#000" },
+      dark: { bg: "#000", fg: "#000" },
+      contrast: { bg: "#fff", fg: "#fff" },
+      dim: { bg: "#333", fg: "#000" },
+    },
+  });
+});
+
+test("prefix hints and @figma annotations name the variables", () => {
+  const [collection] = parseCSSVariables(`/* Collection name: Primitives */
+    /* Prefix: ds */
+    :root {
+      --ds-blue: #00f;
+      /* @figma {"name":"space/sm","key":"k1"} */
+      --ds-space-sm: 4px;
+    }`);
+  assert.deepStrictEqual(collection.modes.get("Default"), [
+    { name: "blue", value: "#00f", cssName: "ds-blue" },
+    { name: "space/sm", value: "4px", cssName: "ds-space-sm", metadata: { name: "space/sm", key: "k1" } },
+  ]);
+});
+
+test("component-scoped variables are skipped with a warning", () => {
+  const issues = [];
+  const collections = parseCSSVariables(":root { --a: 1px; } .card { --card-pad: 8px; }", issues);
+  assert.deepStrictEqual(summarize(collections), { "Imported variables": { Default: { a: "1px" } } });
+  assert.deepStrictEqual(issues.map((issue) => [issue.severity, issue.variable]), [["warning", "card-pad"]]);
+});
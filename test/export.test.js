@@ -0,0 +1,54 @@
+// CSS and design tokens exported from a REST API response.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { exportVariablesHeadless } = require("../code.js");
+
+const MODE_ID = "1:0";
+
+function collection(id, name, variableIds) {
+  return { id, name, key: `key-${id}`, modes: [{ modeId: MODE_ID, name: "Default" }], defaultModeId: MODE_ID, remote: false, variableIds };
+}
+
+function variable(id, name, collectionId, value, resolvedType = "COLOR") {
+  return {
+    id,
+    name,
+    key: `key-${id}`,
+    variableCollectionId: collectionId,
+    resolvedType,
+    valuesByMode: { [MODE_ID]: value },
+    remote: false,
+    scopes: ["ALL_SCOPES"],
+    codeSyntax: {},
+  };
+}
+
+function response(collections, variables) {
+  return {
+    meta: {
+      variableCollections: Object.fromEntries(collections.map((c) => [c.id, c])),
+      variables: Object.fromEntries(variables.map((v) => [v.id, v])),
+    },
+  };
+}
+
+// "color/primary" in two collections
+const SHARED_NAMES = response(
+  [collection("C:1", "Brand A", ["V:1"]), collection("C:2", "Brand B", ["V:2"])],
+  [variable("V:1", "color/primary", "C:1", { r: 1, g: 0, b: 0, a: 1 }), variable("V:2", "color/primary", "C:2", { r: 0, g: 0, b: 1, a: 1 })]
+);
+
+test("names exported by more than one collection are reported", async () => {
+  const css = await exportVariablesHeadless(SHARED_NAMES);
+  assert.deepStrictEqual(css.nameCollisions, ["--color-primary (Brand A, Brand B)"]);
+  const tokens = await exportVariablesHeadless(SHARED_NAMES, { format: "dtcg" });
+  assert.deepStrictEqual(tokens.nameCollisions, ["{color.primary} (Brand A, Brand B)"]);
+});
+
+test("collection prefixes keep the names apart", async () => {
+  const { output, nameCollisions } = await exportVariablesHeadless(SHARED_NAMES, { collectionPrefixes: { "Brand A": "a", "Brand B": "b" } });
+  assert.deepStrictEqual(nameCollisions, []);
+  assert.match(output, /--a-color-primary: #ff0000;/);
+  assert.match(output, /--b-color-primary: #0000ff;/);
+});
@@ -0,0 +1,107 @@
+// Plans imports against a REST API response, as the import preview would against the document.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { exportVariablesHeadless, planImportHeadless, parseCSSVariables, filterApprovedChanges } = require("../code.js");
+
+const COLLECTION_ID = "VariableCollectionId:1:1";
+const LIGHT = "1:0";
+const DARK = "1:1";
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const BLACK = { r: 0, g: 0, b: 0, a: 1 };
+const GRAY = { r: 0.2, g: 0.2, b: 0.2, a: 1 };
+
+function color(id, name, light, dark) {
+  return {
+    id,
+    name,
+    key: `key-${id}`,
+    variableCollectionId: COLLECTION_ID,
+    resolvedType: "COLOR",
+    valuesByMode: { [LIGHT]: light, [DARK]: dark },
+    remote: false,
+    scopes: ["ALL_SCOPES"],
+    codeSyntax: {},
+  };
+}
+
+function response(variables) {
+  return {
+    meta: {
+      variableCollections: {
+        [COLLECTION_ID]: {
+          id: COLLECTION_ID,
+          name: "Theme",
+          key: "collection-key",
+          modes: [{ modeId: LIGHT, name: "Light" }, { modeId: DARK, name: "Dark" }],
+          defaultModeId: LIGHT,
+          remote: false,
+          variableIds: variables.map((variable) => variable.id),
+        },
+      },
+      variables: Object.fromEntries(variables.map((variable) => [variable.id, variable])),
+    },
+  };
+}
+
+function summarize(changes) {
+  return changes.map((change) => [change.kind, change.mode, change.variable, change.before, change.after].filter(Boolean).join(" "));
+}
+
+test("a mirror import of an overrides-only export matches inherited variables by key", async () => {
+  // Only "surface" differs in the dark mode, so the renamed variable is written once, in :root
+  const source = response([color("V:1", "brand/primary", RED, RED), color("V:2", "surface", WHITE, BLACK)]);
+  const { output } = await exportVariablesHeadless(source, { serializeValues: true, overridesOnly: true, includeMetadata: true });
+
+  const document = response([color("V:1", "brand/main", RED, RED), color("V:2", "surface", WHITE, GRAY)]);
+  const { changes, issues } = await planImportHeadless(document, output, { mirror: true });
+  assert.deepStrictEqual(summarize(changes), [
+    "renamed-variable brand/primary brand/main brand/primary",
+    "changed-value Dark surface #333333 #000000",
+  ]);
+  assert.deepStrictEqual(issues, []);
+});
+
+test("the plan lists new, changed, conflicting and unresolved declarations", async () => {
+  const document = response([color("V:1", "bg", WHITE, BLACK), color("V:2", "fg", BLACK, WHITE)]);
+  const css = `/* Collection name: Theme */
+    /* Mode: Light */
+    :root { --bg: #ffffff; --fg: 12px; --accent-color: var(--missing); }
+    /* Mode: Dark */
+    [data-theme="dark"] { --bg: #111111; }
+    /* Mode: Dim */
+    [data-theme="dim"] { --bg: #333333; }`;
+  const { changes } = await planImportHeadless(document, css);
+  assert.deepStrictEqual(summarize(changes), [
+    "type-conflict fg COLOR FLOAT",
+    "changed-value Light fg #000000 12",
+    "new-variable accent-color COLOR",
+    "unresolved-reference Light accent-color default value",
+    "changed-value Dark bg #000000 #111111",
+    "changed-value Dark fg #ffffff 12",
+    "unresolved-reference Dark accent-color default value",
+    "new-mode Dim",
+    "unresolved-reference Dim accent-color default value",
+  ]);
+});
+
+test("deselected changes are left out of the import", async () => {
+  const css = `/* Collection name: Theme */
+    /* Mode: Light */
+    :root { --bg: #ffffff; --fg: #000000; }
+    /* Mode: Dark */
+    [data-theme="dark"] { --bg: #111111; }`;
+  const document = response([color("V:1", "bg", WHITE, BLACK)]);
+  const { changes } = await planImportHeadless(document, css);
+  assert.deepStrictEqual(summarize(changes), ["new-variable fg COLOR", "changed-value Dark bg #000000 #111111"]);
+
+  // Only the new variable is approved: "bg" keeps its dark value
+  const [collection] = filterApprovedChanges(parseCSSVariables(css), changes, [changes[0].id]);
+  const dark = collection.modes.get("Dark");
+  assert.deepStrictEqual(dark.map((variable) => [variable.name, !!variable.skipValue]), [["bg", true], ["fg", false]]);
+  // Nothing approved: the new variable is dropped in every mode
+  const [rejected] = filterApprovedChanges(parseCSSVariables(css), changes, []);
+  assert.deepStrictEqual(Array.from(rejected.modes.values()).map((variables) => variables.map((variable) => variable.name)), [["bg"], ["bg"]]);
+});
@@ -0,0 +1,27 @@
+// Variable names written to CSS with the naming options, and read back on import.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { formatVariableName, parseVariableName } = require("../code.js");
+
+test("names are formatted with each preset", () => {
+  assert.strictEqual(formatVariableName("color/bg Primary"), "color-bg-primary");
+  assert.strictEqual(formatVariableName("color/bg Primary", { preset: "camel" }), "colorBgPrimary");
+  assert.strictEqual(formatVariableName("color/bg Primary", { preset: "snake" }), "color_bg_primary");
+  assert.strictEqual(formatVariableName("color/bg Primary", { preset: "bem" }), "color__bg-primary");
+});
+
+test("stripped groups, prefix and suffix", () => {
+  assert.strictEqual(formatVariableName("color/bg/primary", { stripGroups: 1, prefix: "ds-", suffix: "-v1" }), "ds-bg-primary-v1");
+  // The last group is always kept
+  assert.strictEqual(formatVariableName("color/primary", { stripGroups: 5 }), "primary");
+});
+
+test("a known name that formats to the CSS name restores its groups", () => {
+  assert.strictEqual(parseVariableName("color-bg-primary", {}, ["space/sm", "color/bg primary"]), "color/bg primary");
+});
+
+test("unknown names drop the prefix and suffix, and bem restores groups", () => {
+  assert.strictEqual(parseVariableName("ds-color__bg-primary", { preset: "bem", prefix: "ds-" }), "color/bg-primary");
+  assert.strictEqual(parseVariableName("x-color-bg-v1", { prefix: "x-", suffix: "-v1" }), "color-bg");
+});
@@ -0,0 +1,72 @@
+// Exports variables as CSS and reads the CSS back, as a file exported from one document
+// and imported into another would be.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { exportVariablesHeadless, parseCSSVariables, determineImportTypes } = require("../code.js");
+
+const COLLECTION_ID = "VariableCollectionId:1:1";
+const MODE_ID = "1:0";
+
+function variable(id, name, resolvedType, value, scopes = ["ALL_SCOPES"]) {
+  return {
+    id,
+    name,
+    key: `key-${id}`,
+    variableCollectionId: COLLECTION_ID,
+    resolvedType,
+    valuesByMode: { [MODE_ID]: value },
+    remote: false,
+    scopes,
+    codeSyntax: {},
+  };
+}
+
+const RESPONSE = {
+  meta: {
+    variableCollections: {
+      [COLLECTION_ID]: {
+        id: COLLECTION_ID,
+        name: "Tokens",
+        key: "collection-key",
+        modes: [{ modeId: MODE_ID, name: "Default" }],
+        defaultModeId: MODE_ID,
+        remote: false,
+        variableIds: ["V:1", "V:2", "V:3", "V:4", "V:5"],
+      },
+    },
+    variables: {
+      "V:1": variable("V:1", "feature/enabled", "BOOLEAN", true),
+      "V:2": variable("V:2", "feature/hidden", "BOOLEAN", false),
+      "V:3": variable("V:3", "space/4", "FLOAT", 16, ["GAP"]),
+      "V:4": variable("V:4", "font/body", "STRING", "Inter", ["FONT_FAMILY"]),
+      // A string that looks like a number
+      "V:5": variable("V:5", "label/count", "STRING", "12"),
+    },
+  },
+};
+
+async function importTypes(options) {
+  const { output } = await exportVariablesHeadless(RESPONSE, options);
+  const types = determineImportTypes(parseCSSVariables(output));
+  const byName = {};
+  types.forEach((type, key) => { byName[key.replace(/^Tokens:/, "")] = type; });
+  return { css: output, types: byName };
+}
+
+test("booleans are exported as 1 and 0", async () => {
+  const { css } = await importTypes({ serializeValues: true });
+  assert.match(css, /--feature-enabled: 1;/);
+  assert.match(css, /--feature-hidden: 0;/);
+});
+
+test("BOOLEAN, FLOAT and STRING types survive a round trip with metadata", async () => {
+  const { types } = await importTypes({ serializeValues: true, includeMetadata: true });
+  assert.deepStrictEqual(types, {
+    "feature/enabled": "BOOLEAN",
+    "feature/hidden": "BOOLEAN",
+    "space/4": "FLOAT",
+    "font/body": "STRING",
+    "label/count": "STRING",
+  });
+});
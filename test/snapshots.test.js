@@ -0,0 +1,60 @@
+// The changelog between two snapshots of the variables.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { diffSnapshots } = require("../code.js");
+
+const COLLECTION = { id: "C:1", name: "Theme", modes: [{ modeId: "M:1", name: "Light" }] };
+
+function variable(id, name, value, key = `key-${id}`) {
+  const alias = typeof value === "object";
+  return {
+    id,
+    key,
+    name,
+    collectionId: COLLECTION.id,
+    resolvedType: "COLOR",
+    description: "",
+    scopes: ["ALL_SCOPES"],
+    hiddenFromPublishing: false,
+    rawValues: { "M:1": alias ? value : { r: 0, g: 0, b: 0, a: 1 } },
+    modeValues: { "M:1": alias ? `var(--${value.id})` : value },
+    codeSyntax: {},
+  };
+}
+
+function snapshot(name, variables) {
+  return { id: name, name, createdAt: "2024-01-01T00:00:00.000Z", collections: [COLLECTION], variables };
+}
+
+const alias = (id) => ({ type: "VARIABLE_ALIAS", id });
+
+function summarize(changes) {
+  return changes.map((change) => [change.kind, change.name, change.previousName, change.before, change.after].filter(Boolean).join(" "));
+}
+
+test("added, removed, renamed and changed variables", () => {
+  const older = snapshot("v1", [variable("V:1", "bg", "#ffffff"), variable("V:2", "fg", "#000000"), variable("V:3", "gone", "#111111")]);
+  const newer = snapshot("v2", [variable("V:1", "background", "#ffffff"), variable("V:2", "fg", "#222222"), variable("V:4", "new", "#333333")]);
+  assert.deepStrictEqual(summarize(diffSnapshots(older, newer)), [
+    "renamed background bg",
+    "value fg #000000 #222222",
+    "added new",
+    "removed gone",
+  ]);
+});
+
+test("variables are matched by key when the ids differ", () => {
+  const older = snapshot("v1", [variable("V:1", "bg", "#ffffff", "shared")]);
+  const newer = snapshot("v2", [variable("V:9", "bg", "#ffffff", "shared")]);
+  assert.deepStrictEqual(diffSnapshots(older, newer), []);
+});
+
+test("an alias to a renamed target is unchanged, and a new target is an alias change", () => {
+  const older = snapshot("v1", [variable("V:1", "blue", "#0000ff"), variable("V:2", "red", "#ff0000"), variable("V:3", "link", alias("V:1"))]);
+  const renamed = snapshot("v2", [variable("V:1", "brand", "#0000ff"), variable("V:2", "red", "#ff0000"), variable("V:3", "link", alias("V:1"))]);
+  assert.deepStrictEqual(summarize(diffSnapshots(older, renamed)), ["renamed brand blue"]);
+
+  const retargeted = snapshot("v3", [variable("V:1", "blue", "#0000ff"), variable("V:2", "red", "#ff0000"), variable("V:3", "link", alias("V:2"))]);
+  assert.deepStrictEqual(summarize(diffSnapshots(older, retargeted)), ["alias link → blue → red"]);
+});
@@ -0,0 +1,56 @@
+// Reading DTCG and Tokens Studio JSON into collections and modes for an import.
+
+const test = require("node:test");
+const assert = require("node:assert");
+const { parseTokensJSON } = require("../code.js");
+
+function summarize(collections) {
+  const summary = {};
+  collections.forEach((collection) => {
+    summary[collection.name] = {};
+    collection.modes.forEach((variables, mode) => {
+      summary[collection.name][mode] = variables.map((variable) => `${variable.name} ${variable.type} ${variable.value}`);
+    });
+  });
+  return summary;
+}
+
+test("a single DTCG file goes into one collection, with inherited types and aliases as var()", () => {
+  const json = {
+    color: { $type: "color", brand: { $value: "#ff0000" }, link: { $value: "{color.brand}" } },
+    space: { sm: { $type: "dimension", $value: "4px" } },
+  };
+  assert.deepStrictEqual(summarize(parseTokensJSON(JSON.stringify(json))), {
+    Tokens: { Default: ["color/brand COLOR #ff0000", "color/link COLOR var(--color/brand)", "space/sm FLOAT 4px"] },
+  });
+});
+
+test("Collection/Mode sets become modes of one collection", () => {
+  const json = {
+    "Theme/Light": { bg: { $type: "color", $value: "#ffffff" } },
+    "Theme/Dark": { bg: { $type: "color", $value: "#000000" } },
+  };
+  assert.deepStrictEqual(summarize(parseTokensJSON(JSON.stringify(json))), {
+    Theme: { Light: ["bg COLOR #ffffff"], Dark: ["bg COLOR #000000"] },
+  });
+});
+
+test("Tokens Studio themes become modes, and source sets their own collection", () => {
+  const json = {
+    core: { blue: { value: "#0000ff", type: "color" } },
+    light: { bg: { value: "{blue}", type: "color" } },
+    dark: { bg: { value: "#000", type: "color" } },
+    $themes: [
+      { name: "Light", group: "Theme", selectedTokenSets: { core: "source", light: "enabled" } },
+      { name: "Dark", group: "Theme", selectedTokenSets: { core: "source", dark: "enabled" } },
+    ],
+  };
+  assert.deepStrictEqual(summarize(parseTokensJSON(JSON.stringify(json))), {
+    Theme: { Light: ["bg COLOR var(--blue)"], Dark: ["bg COLOR #000"] },
+    core: { Default: ["blue COLOR #0000ff"] },
+  });
+});
+
+test("anything but an object is rejected", () => {
+  assert.throws(() => parseTokensJSON("[1]"), /must be an object/);
+});